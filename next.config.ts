@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit loads its font metrics from files next to its own sources, so it can't be bundled
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
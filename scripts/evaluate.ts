@@ -0,0 +1,129 @@
+// Scores a folder of human-labelled calls with the keyword analyzers and reports how far
+// the automated scores are from the humans', optionally against an earlier run.
+//
+//   npm run evaluate -- [dir] [--scorecard file.json] [--baseline report.json] [--out report.json]
+//
+// dir defaults to fixtures/evaluation. Save a run with --out, change a phrase list or
+// rule, then pass that file as --baseline to see what the change did
+import { promises as fs } from "fs";
+import defaultScorecard from "@/data/scorecards/default.json";
+import {
+  compareReports,
+  evaluateScorecard,
+  loadEvaluationSet,
+  type EvaluationDiff,
+  type EvaluationReport,
+} from "@/lib/evaluation";
+import { validateScorecardInput, type Scorecard } from "@/lib/scorecards";
+
+interface Args {
+  dir: string;
+  scorecard?: string;
+  baseline?: string;
+  out?: string;
+}
+
+const USAGE = "Usage: npm run evaluate -- [dir] [--scorecard file.json] [--baseline report.json] [--out report.json]";
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { dir: "fixtures/evaluation" };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--scorecard" || arg === "--baseline" || arg === "--out") {
+      const value = argv[++i];
+      if (!value) throw new Error(`${arg} needs a file\n${USAGE}`);
+      args[arg.slice(2) as "scorecard" | "baseline" | "out"] = value;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option ${arg}\n${USAGE}`);
+    } else {
+      args.dir = arg;
+    }
+  }
+  return args;
+}
+
+async function readJson<T>(file: string): Promise<T> {
+  return JSON.parse(await fs.readFile(file, "utf8")) as T;
+}
+
+// A scorecard file is a scorecard as exported or posted to /api/scorecards
+async function loadScorecard(file?: string): Promise<Scorecard> {
+  if (!file) return defaultScorecard as Scorecard;
+  const scorecard = await readJson<Scorecard>(file);
+  const invalid = validateScorecardInput(scorecard, true);
+  if (invalid) throw new Error(`${file}: ${invalid}`);
+  return { ...scorecard, id: scorecard.id ?? file, version: scorecard.version ?? 1 };
+}
+
+const show = (value: number | null | undefined, suffix = "") => (value === null || value === undefined ? "-" : `${value}${suffix}`);
+
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+  return rows.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd()).join("\n");
+}
+
+function printReport(report: EvaluationReport): void {
+  console.log(`${report.scorecard.name} (v${report.scorecard.version}) over ${report.calls} labelled call(s)\n`);
+  const passFail = report.parameters.filter(p => p.type === "PASS_FAIL");
+  const scored = report.parameters.filter(p => p.type === "SCORE");
+  if (passFail.length) {
+    console.log("Pass/fail parameters (a fail is the positive class)");
+    console.log(table([
+      ["Parameter", "Calls", "Accuracy", "Precision", "Recall"],
+      ...passFail.map(p => [p.name, String(p.labelled), show(p.accuracy, "%"), show(p.precision, "%"), show(p.recall, "%")]),
+    ]));
+    console.log();
+  }
+  if (scored.length) {
+    console.log("Scored parameters (bias is human - automated)");
+    console.log(table([
+      ["Parameter", "Calls", "Mean error", "Mean error %", "Bias"],
+      ...scored.map(p => [p.name, String(p.labelled), show(p.meanAbsoluteError), show(p.meanAbsoluteErrorPct, "%"), show(p.bias)]),
+    ]));
+    console.log();
+  }
+}
+
+function printDiff(diff: EvaluationDiff, baseline: string): void {
+  if (!diff.metrics.length && !diff.scores.length) {
+    console.log(`No change from ${baseline}`);
+    return;
+  }
+  console.log(`Changes from ${baseline}`);
+  if (diff.metrics.length) {
+    console.log(table([
+      ["Parameter", "Metric", "Baseline", "Now", ""],
+      ...diff.metrics.map(m => [m.key, m.metric, show(m.baseline), show(m.current), m.improved === null ? "" : m.improved ? "better" : "worse"]),
+    ]));
+    console.log();
+  }
+  if (diff.scores.length) {
+    console.log(table([
+      ["Call", "Parameter", "Baseline", "Now", "Human"],
+      ...diff.scores.map(s => [s.call, s.key, String(s.baseline), String(s.current), String(s.human)]),
+    ]));
+    console.log();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const scorecard = await loadScorecard(args.scorecard);
+  const cases = await loadEvaluationSet(args.dir, scorecard);
+  if (!cases.length) throw new Error(`No *.labels.json files in ${args.dir}`);
+
+  const report = await evaluateScorecard(scorecard, cases);
+  printReport(report);
+  if (args.baseline) {
+    printDiff(compareReports(report, await readJson<EvaluationReport>(args.baseline)), args.baseline);
+  }
+  if (args.out) {
+    await fs.writeFile(args.out, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Report written to ${args.out}`);
+  }
+}
+
+main().catch(error => {
+  console.error((error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeTranscriptFile, parseAnalysisOptions } from "@/lib/analysis";
+import { maxUploadBytes } from "@/lib/audio";
+import { authorize, callOwner } from "@/lib/auth";
+import { AnalysisError, toAnalysisError } from "@/lib/errors";
+import { getOrg } from "@/lib/orgs";
+
+// Room for the multipart boundaries and option fields around the file
+const FORM_OVERHEAD = 64 * 1024;
+
+const fail = (error: AnalysisError) => NextResponse.json(error.toJSON(), { status: error.status });
+
+// Takes a transcript as the `file` field (Deepgram JSON, SRT, WebVTT or speaker-tagged
+// text) or pasted into the `transcript` field, with the same options as an audio upload
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return fail(new AnalysisError(auth.status === 401 ? "UNAUTHENTICATED" : "FORBIDDEN", auth.error));
+  }
+  const { principal } = auth;
+  const org = await getOrg(principal.orgId);
+
+  if (Number(req.headers.get("content-length") || 0) > maxUploadBytes() + FORM_OVERHEAD) {
+    return fail(new AnalysisError("FILE_TOO_LARGE", `Uploads are limited to ${maxUploadBytes() / (1024 * 1024)} MB`));
+  }
+
+  const formData = await req.formData().catch(() => null);
+  const file = formData?.get("file");
+  const pasted = formData?.get("transcript");
+  if (!formData || (!(file instanceof File) && typeof pasted !== "string")) {
+    return fail(new AnalysisError("NO_FILE", "No transcript uploaded"));
+  }
+
+  const parsed = parseAnalysisOptions(formData, org?.settings);
+  if ("error" in parsed) {
+    return fail(new AnalysisError("INVALID_OPTIONS", parsed.error));
+  }
+
+  try {
+    const input = file instanceof File
+      ? { content: await file.text(), fileName: file.name }
+      : { content: pasted as string, fileName: "pasted-transcript.txt" };
+    return NextResponse.json(await analyzeTranscriptFile(input, parsed.options, callOwner(principal)));
+  } catch (error) {
+    const failure = toAnalysisError(error);
+    if (failure.code === "INTERNAL_ERROR") console.error("Error:", error);
+    return fail(failure);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, deleteApiKey } from "@/lib/auth";
+
+// Revokes the key; requests using it fail from then on
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  if (!(await deleteApiKey(auth.principal.orgId, id))) {
+    return NextResponse.json({ error: "API key not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
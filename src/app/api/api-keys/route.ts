@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, createApiKey, listApiKeys, validateApiKeyInput, type ApiKeyInput } from "@/lib/auth";
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ apiKeys: await listApiKeys(auth.principal.orgId) });
+}
+
+// Body: { name, role? } with role reviewer (default) or admin. The response is the only
+// time the key itself is shown
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const input = (await req.json().catch(() => null)) as ApiKeyInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const validationError = validateApiKeyInput(input);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  return NextResponse.json(await createApiKey(auth.principal.orgId, input, auth.principal.name), { status: 201 });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { login, sessionCookieOptions } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/cookies";
+
+// Body: { email, password }. Sets the session cookie the web app uses; API clients
+// should use an API key instead
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as { email?: unknown; password?: unknown } | null;
+  if (!body || typeof body.email !== "string" || typeof body.password !== "string") {
+    return NextResponse.json({ error: "email and password are required" }, { status: 400 });
+  }
+
+  const session = await login(body.email, body.password);
+  if (!session) {
+    return NextResponse.json({ error: "Invalid email or password" }, { status: 401 });
+  }
+  const response = NextResponse.json({ user: session.user });
+  response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt, req.nextUrl.protocol === "https:"));
+  return response;
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endSession } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/cookies";
+
+export async function POST(req: NextRequest) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (token) await endSession(token);
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
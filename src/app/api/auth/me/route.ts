@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getOrg } from "@/lib/orgs";
+
+// Who the session or API key belongs to, for the app to decide what to show
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const org = await getOrg(auth.principal.orgId);
+  return NextResponse.json({ ...auth.principal, organization: org && { id: org.id, name: org.name } });
+}
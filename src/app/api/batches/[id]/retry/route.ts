@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { countJobs, retryJobs } from "@/lib/jobs";
+
+// Re-queues failed jobs. Body may list `jobIds`; without it every failed job is retried
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const body = (await req.json().catch(() => ({}))) as { jobIds?: unknown };
+  if (body.jobIds !== undefined && !(Array.isArray(body.jobIds) && body.jobIds.every(j => typeof j === "string"))) {
+    return NextResponse.json({ error: "jobIds must be an array of job ids" }, { status: 400 });
+  }
+
+  const batch = await retryJobs(auth.principal.orgId, id, body.jobIds as string[] | undefined);
+  if (!batch) {
+    return NextResponse.json({ error: `Batch not found: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json({ ...batch, counts: countJobs(batch.jobs) }, { status: 202 });
+}
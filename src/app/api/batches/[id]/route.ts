@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { countJobs, getBatch } from "@/lib/jobs";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const batch = await getBatch(auth.principal.orgId, id);
+  if (!batch) {
+    return NextResponse.json({ error: `Batch not found: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json({ ...batch, counts: countJobs(batch.jobs) });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseAnalysisOptions } from "@/lib/analysis";
+import { authorize, callOwner } from "@/lib/auth";
+import { AnalysisError } from "@/lib/errors";
+import { countJobs, createBatch, expandUploads, listBatches, maxBatchBytes } from "@/lib/jobs";
+import { getOrg } from "@/lib/orgs";
+import { getScorecard } from "@/lib/scorecards";
+
+// Room for the multipart boundaries and option fields around the files
+const FORM_OVERHEAD = 64 * 1024;
+
+const fail = (error: AnalysisError) => NextResponse.json(error.toJSON(), { status: error.status });
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ batches: await listBatches(auth.principal.orgId) });
+}
+
+// Accepts any number of `files` (audio or zip archives of audio) and queues one job
+// per call; poll GET /api/batches/:id for progress
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return fail(new AnalysisError(auth.status === 401 ? "UNAUTHENTICATED" : "FORBIDDEN", auth.error));
+  }
+  const { principal } = auth;
+  const org = await getOrg(principal.orgId);
+
+  // Refuse oversized uploads before buffering them
+  if (Number(req.headers.get("content-length") || 0) > maxBatchBytes() + FORM_OVERHEAD) {
+    return fail(new AnalysisError("FILE_TOO_LARGE", `Batch uploads are limited to ${process.env.MAX_BATCH_MB || 1024} MB`));
+  }
+
+  const formData = await req.formData().catch(() => null);
+  const files = formData?.getAll("files").filter((f): f is File => typeof f !== "string") ?? [];
+  if (!formData || !files.length) {
+    return fail(new AnalysisError("NO_FILE", "No files uploaded"));
+  }
+
+  const parsed = parseAnalysisOptions(formData, org?.settings);
+  if ("error" in parsed) {
+    return fail(new AnalysisError("INVALID_OPTIONS", parsed.error));
+  }
+  const { options } = parsed;
+  if (!(await getScorecard(principal.orgId, options.scorecardId, options.scorecardVersion))) {
+    return fail(new AnalysisError("SCORECARD_NOT_FOUND", `Scorecard not found: ${options.scorecardId}`));
+  }
+
+  let inputs;
+  try {
+    inputs = await expandUploads(files);
+  } catch (error) {
+    if (error instanceof AnalysisError) return fail(error);
+    console.error('Error reading batch upload:', error);
+    return fail(new AnalysisError("UNSUPPORTED_FORMAT", "Could not read uploaded archive"));
+  }
+  if (!inputs.length) {
+    return fail(new AnalysisError("NO_FILE", "No audio files found in upload"));
+  }
+
+  const batch = await createBatch(inputs, options, callOwner(principal));
+  return NextResponse.json({ ...batch, counts: countJobs(batch.jobs) }, { status: 202 });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { findCalls } from "@/lib/calls";
+import { calibrationReport } from "@/lib/review";
+
+// Automated vs. human scores per parameter over reviewed calls. Filters: from, to,
+// scorecardId, campaign
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const params = req.nextUrl.searchParams;
+  const param = (name: string) => params.get(name) || undefined;
+  const calls = await findCalls({ orgId: auth.principal.orgId }, {
+    reviewed: true,
+    from: param("from"),
+    to: param("to"),
+    scorecardId: param("scorecardId"),
+    campaign: param("campaign"),
+  });
+  return NextResponse.json(calibrationReport(calls));
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, callScope } from "@/lib/auth";
+import { getCall } from "@/lib/calls";
+import { attachmentHeaders, exportCalls, isExportFormat } from "@/lib/export";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const format = req.nextUrl.searchParams.get("format") || "pdf";
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `Unknown export format: ${format}` }, { status: 400 });
+  }
+
+  const call = await getCall(callScope(auth.principal), id);
+  if (!call) {
+    return NextResponse.json({ error: `Call not found: ${id}` }, { status: 404 });
+  }
+
+  const file = await exportCalls([call], format, `qa-${call.fileName.replace(/\.[^.]+$/, "")}-${id.slice(0, 8)}`);
+  return new NextResponse(new Uint8Array(file.body), { headers: attachmentHeaders(file) });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, callScope } from "@/lib/auth";
+import { getCall } from "@/lib/calls";
+import { submitReview, validateReviewInput, type ReviewInput } from "@/lib/review";
+
+// Body: { comment?, overrides?: [{ parameter, score, comment }] }. Marks the call reviewed;
+// parameters without an override count as the reviewer agreeing with the analyzer. The
+// reviewer recorded in the audit trail is whoever is signed in
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as ReviewInput | null;
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const input: ReviewInput = { ...body, reviewer: auth.principal.name };
+
+  const call = await getCall(callScope(auth.principal), id);
+  if (!call) {
+    return NextResponse.json({ error: `Call not found: ${id}` }, { status: 404 });
+  }
+  const validationError = validateReviewInput(input, call);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  return NextResponse.json(await submitReview(call, input));
+}
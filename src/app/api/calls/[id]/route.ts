@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, callScope } from "@/lib/auth";
+import { getCall } from "@/lib/calls";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const call = await getCall(callScope(auth.principal), id);
+  if (!call) {
+    return NextResponse.json({ error: `Call not found: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(call);
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, callScope } from "@/lib/auth";
+import { findCalls, type CallRecord } from "@/lib/calls";
+import { attachmentHeaders, exportCalls, isExportFormat } from "@/lib/export";
+
+// Exports a set of calls: either `ids` (comma-separated) or the same filters as GET /api/calls
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const scope = callScope(auth.principal);
+  const params = req.nextUrl.searchParams;
+  const param = (name: string) => params.get(name) || undefined;
+
+  const format = param("format") ?? "csv";
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `Unknown export format: ${format}` }, { status: 400 });
+  }
+
+  let calls: CallRecord[];
+  const ids = param("ids");
+  if (ids) {
+    const wanted = new Set(ids.split(",").map(id => id.trim()));
+    calls = (await findCalls(scope)).filter(call => wanted.has(call.id));
+  } else {
+    calls = await findCalls(scope, {
+      q: param("q"),
+      agent: param("agent"),
+      team: param("team"),
+      campaign: param("campaign"),
+      scorecardId: param("scorecardId"),
+      grade: param("grade"),
+      fatalOnly: params.get("fatal") === "true",
+      from: param("from"),
+      to: param("to"),
+    });
+  }
+  if (!calls.length) {
+    return NextResponse.json({ error: "No calls match the export" }, { status: 404 });
+  }
+
+  const file = await exportCalls(calls, format, `qa-report-${new Date().toISOString().slice(0, 10)}`);
+  return new NextResponse(new Uint8Array(file.body), { headers: attachmentHeaders(file) });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, callScope } from "@/lib/auth";
+import { callFacets, listCalls } from "@/lib/calls";
+
+// Filters: q, agent, team, campaign, scorecardId, grade, fatal=true, reviewed=true|false,
+// from, to (ISO dates). Agents only get their own calls
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const scope = callScope(auth.principal);
+  const params = req.nextUrl.searchParams;
+  const param = (name: string) => params.get(name) || undefined;
+  const calls = await listCalls(scope, {
+    q: param("q"),
+    agent: param("agent"),
+    team: param("team"),
+    campaign: param("campaign"),
+    scorecardId: param("scorecardId"),
+    grade: param("grade"),
+    fatalOnly: params.get("fatal") === "true",
+    reviewed: params.has("reviewed") ? params.get("reviewed") === "true" : undefined,
+    from: param("from"),
+    to: param("to"),
+  });
+  return NextResponse.json({ calls, facets: await callFacets(scope) });
+}
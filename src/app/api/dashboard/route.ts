@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, callScope } from "@/lib/auth";
+import { callFacets, findCalls } from "@/lib/calls";
+import { buildDashboard, isTrendInterval } from "@/lib/dashboard";
+
+// Aggregates stored calls. Filters: from, to (ISO dates), agent, team, campaign,
+// scorecardId; interval=day|week|month buckets the trend
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const scope = callScope(auth.principal);
+  const params = req.nextUrl.searchParams;
+  const param = (name: string) => params.get(name) || undefined;
+
+  const interval = param("interval") ?? "day";
+  if (!isTrendInterval(interval)) {
+    return NextResponse.json({ error: `Unknown interval: ${interval}` }, { status: 400 });
+  }
+
+  const calls = await findCalls(scope, {
+    from: param("from"),
+    to: param("to"),
+    agent: param("agent"),
+    team: param("team"),
+    campaign: param("campaign"),
+    scorecardId: param("scorecardId"),
+  });
+  return NextResponse.json({ ...buildDashboard(calls, interval), facets: await callFacets(scope) });
+}
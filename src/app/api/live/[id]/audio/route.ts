@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getLiveSession, maxLiveChunkBytes, pushAudio } from "@/lib/live";
+
+// The raw request body is the next chunk of audio, in the encoding the call started with
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const { orgId } = auth.principal;
+  const session = getLiveSession(orgId, id);
+  if (!session) {
+    return NextResponse.json({ error: `Live call not found: ${id}` }, { status: 404 });
+  }
+  if (session.source !== "audio" || session.status !== "live") {
+    return NextResponse.json({ error: "This call isn't taking audio" }, { status: 409 });
+  }
+  const tooLarge = () => NextResponse.json({ error: `Audio chunks are limited to ${maxLiveChunkBytes() / (1024 * 1024)} MB` }, { status: 413 });
+  if (Number(req.headers.get("content-length") || 0) > maxLiveChunkBytes()) return tooLarge();
+  const chunk = Buffer.from(await req.arrayBuffer());
+  if (!chunk.length) {
+    return NextResponse.json({ error: "No audio in request body" }, { status: 400 });
+  }
+  // A chunked body carries no content-length
+  if (chunk.length > maxLiveChunkBytes()) return tooLarge();
+  const updated = pushAudio(orgId, id, chunk)!;
+  return NextResponse.json({ status: updated.status, elapsed: updated.elapsed }, { status: 202 });
+}
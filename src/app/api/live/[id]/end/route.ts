@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { endLiveSession } from "@/lib/live";
+
+// Ends the call and saves it to call history; the response carries the saved call's id.
+// An optional JSON body { disposition } records the code the agent logged
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const body = (await req.json().catch(() => ({}))) as { disposition?: unknown };
+  if (body?.disposition !== undefined && typeof body.disposition !== "string") {
+    return NextResponse.json({ error: "disposition must be a string" }, { status: 400 });
+  }
+  const { id } = await params;
+  const session = await endLiveSession(auth.principal.orgId, id, body?.disposition);
+  if (!session) {
+    return NextResponse.json({ error: `Live call not found: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(session);
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getLiveSession, subscribeLive, type LiveEvent } from "@/lib/live";
+
+export const dynamic = "force-dynamic";
+
+// Proxies drop idle streams, so a comment goes out when nothing else has
+const KEEP_ALIVE_MS = 15_000;
+
+// Server-sent events: a snapshot first, then utterance, alert, score and finally ended
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  if (!getLiveSession(auth.principal.orgId, id)) {
+    return NextResponse.json({ error: `Live call not found: ${id}` }, { status: 404 });
+  }
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+      const send = (event: LiveEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (event.type === "ended" || (event.type === "snapshot" && event.snapshot.status === "ended")) close();
+      };
+      // Set up before subscribing: an ended call's snapshot closes the stream straight away
+      let unsubscribe: (() => void) | null = null;
+      const keepAlive = setInterval(() => !closed && controller.enqueue(encoder.encode(": keep-alive\n\n")), KEEP_ALIVE_MS);
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe?.();
+      };
+      unsubscribe = subscribeLive(auth.principal.orgId, id, send);
+      if (!unsubscribe) close();
+      req.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
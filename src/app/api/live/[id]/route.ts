@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getLiveSession } from "@/lib/live";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const session = getLiveSession(auth.principal.orgId, id);
+  if (!session) {
+    return NextResponse.json({ error: `Live call not found: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(session);
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getLiveSession, pushTranscript, validateLiveUtterances, type LiveUtteranceInput } from "@/lib/live";
+
+// Takes { utterances: [...] } from a dialer or ASR that transcribes the call itself
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const { orgId } = auth.principal;
+  const session = getLiveSession(orgId, id);
+  if (!session) {
+    return NextResponse.json({ error: `Live call not found: ${id}` }, { status: 404 });
+  }
+  if (session.source !== "transcript" || session.status !== "live") {
+    return NextResponse.json({ error: "This call isn't taking transcripts" }, { status: 409 });
+  }
+  const body = (await req.json().catch(() => null)) as { utterances?: unknown } | null;
+  const invalid = validateLiveUtterances(body?.utterances);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+  const updated = pushTranscript(orgId, id, body!.utterances as LiveUtteranceInput[])!;
+  return NextResponse.json({ status: updated.status, elapsed: updated.elapsed, alerts: updated.alerts });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseAnalysisOptions } from "@/lib/analysis";
+import { authorize, callOwner } from "@/lib/auth";
+import { AnalysisError } from "@/lib/errors";
+import { isLiveSource, LIVE_SOURCES, listLiveSessions, startLiveSession } from "@/lib/live";
+import { getOrg } from "@/lib/orgs";
+import { getScorecard } from "@/lib/scorecards";
+
+const fail = (error: AnalysisError) => NextResponse.json(error.toJSON(), { status: error.status });
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ sessions: listLiveSessions(auth.principal.orgId) });
+}
+
+// Starts monitoring a call. The JSON body takes the same options as an upload plus
+// `source`; simulations also take `fixture` and `speed`
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return fail(new AnalysisError(auth.status === 401 ? "UNAUTHENTICATED" : "FORBIDDEN", auth.error));
+  }
+  const { principal } = auth;
+  const org = await getOrg(principal.orgId);
+
+  const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  if (!isLiveSource(body.source)) {
+    return fail(new AnalysisError("INVALID_OPTIONS", `source must be one of: ${LIVE_SOURCES.join(", ")}`));
+  }
+  const speed = body.speed === undefined ? 1 : Number(body.speed);
+  if (!(speed > 0 && speed <= 20)) {
+    return fail(new AnalysisError("INVALID_OPTIONS", "speed must be between 0 and 20"));
+  }
+
+  const parsed = parseAnalysisOptions({ get: name => (body[name] != null ? String(body[name]) : null) }, org?.settings);
+  if ("error" in parsed) {
+    return fail(new AnalysisError("INVALID_OPTIONS", parsed.error));
+  }
+  const { options } = parsed;
+  const scorecard = await getScorecard(principal.orgId, options.scorecardId, options.scorecardVersion);
+  if (!scorecard) {
+    return fail(new AnalysisError("SCORECARD_NOT_FOUND", `Scorecard not found: ${options.scorecardId}`));
+  }
+
+  try {
+    const session = await startLiveSession({
+      source: body.source,
+      owner: callOwner(principal),
+      options,
+      scorecard,
+      fixture: typeof body.fixture === "string" ? body.fixture : undefined,
+      speed,
+    });
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    if (error instanceof AnalysisError) return fail(error);
+    console.error("Error starting live call:", error);
+    return fail(new AnalysisError("INTERNAL_ERROR", "Could not start the live call"));
+  }
+}
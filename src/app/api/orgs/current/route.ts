@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getOrg, updateOrg, validateOrgInput, type OrgInput } from "@/lib/orgs";
+import { getScorecard } from "@/lib/scorecards";
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const org = await getOrg(auth.principal.orgId);
+  if (!org) {
+    return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+  }
+  return NextResponse.json(org);
+}
+
+// Body: { name?, settings?: { scorecardId?, provider?, scoringMode?, language?, piiView? } }.
+// Settings are the defaults for uploads that don't choose for themselves
+export async function PATCH(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const input = (await req.json().catch(() => null)) as OrgInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const validationError = validateOrgInput(input);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  const scorecardId = input.settings?.scorecardId;
+  if (scorecardId && !(await getScorecard(auth.principal.orgId, scorecardId))) {
+    return NextResponse.json({ error: `Scorecard not found: ${scorecardId}` }, { status: 400 });
+  }
+  const org = await updateOrg(auth.principal.orgId, input);
+  if (!org) {
+    return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+  }
+  return NextResponse.json(org);
+}
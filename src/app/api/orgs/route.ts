@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSession, sessionCookieOptions, validateUserInput } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/cookies";
+import { hasOrganizations, signUp, type SignupInput } from "@/lib/orgs";
+
+// Sign-up. Body: { organization, name, email, password }; the person signing up becomes the
+// organization's admin and is signed in. Open for the first organization, after that only
+// with SIGNUP_ENABLED=true, otherwise admins add people from inside their organization
+export async function POST(req: NextRequest) {
+  if (process.env.SIGNUP_ENABLED !== "true" && (await hasOrganizations())) {
+    return NextResponse.json({ error: "Sign-up is closed; ask an admin to add you" }, { status: 403 });
+  }
+  const input = (await req.json().catch(() => null)) as SignupInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (typeof input.organization !== "string" || !input.organization.trim()) {
+    return NextResponse.json({ error: "Organization name is required" }, { status: 400 });
+  }
+  const validationError = validateUserInput({ ...input, role: undefined }, true);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const created = await signUp(input);
+  if (!created) {
+    return NextResponse.json({ error: "That email is already registered" }, { status: 409 });
+  }
+  const session = await createSession(created.user.id);
+  const response = NextResponse.json(created, { status: 201 });
+  response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt, req.nextUrl.protocol === "https:"));
+  return response;
+}
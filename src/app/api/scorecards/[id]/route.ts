@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createScorecardVersion, getScorecard, listScorecards, validateScorecardInput, type ScorecardInput } from "@/lib/scorecards";
+
+// GET returns the latest version, or a specific one with ?version=N
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const version = req.nextUrl.searchParams.get("version");
+  const scorecard = await getScorecard(auth.principal.orgId, id, version ? Number(version) : undefined);
+  if (!scorecard) {
+    return NextResponse.json({ error: "Scorecard not found" }, { status: 404 });
+  }
+  const summary = (await listScorecards(auth.principal.orgId)).find(s => s.id === id);
+  return NextResponse.json({ ...scorecard, versions: summary?.versions ?? [scorecard.version] });
+}
+
+// POST publishes a new version; fields left out are carried over from the latest one
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const input = (await req.json().catch(() => null)) as ScorecardInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const current = await getScorecard(auth.principal.orgId, id);
+  if (!current) {
+    return NextResponse.json({ error: "Scorecard not found" }, { status: 404 });
+  }
+  const validationError = validateScorecardInput({ ...current, ...input }, false);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  const scorecard = await createScorecardVersion(auth.principal.orgId, id, input);
+  return NextResponse.json(scorecard, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createScorecard, listScorecards, validateScorecardInput, type ScorecardInput } from "@/lib/scorecards";
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "agent");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ scorecards: await listScorecards(auth.principal.orgId) });
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const input = (await req.json().catch(() => null)) as ScorecardInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const validationError = validateScorecardInput(input, true);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  const scorecard = await createScorecard(auth.principal.orgId, input);
+  return NextResponse.json(scorecard, { status: 201 });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { clearTranscriptCache, transcriptCacheStats } from "@/lib/transcription";
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "reviewer");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json(await transcriptCacheStats(auth.principal.orgId));
+}
+
+// Drops the organization's cached transcripts; the next upload of each recording is
+// transcribed again
+export async function DELETE(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ removed: await clearTranscriptCache(auth.principal.orgId) });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, deleteUser, updateUser, validateUserInput, type UserInput } from "@/lib/auth";
+
+// Changes email, name, password, role or agent; fields left out are kept
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const input = (await req.json().catch(() => null)) as UserInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const validationError = validateUserInput(input, false);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  // Keeps at least one admin in the organization
+  if (id === auth.principal.userId && input.role !== undefined && input.role !== "admin") {
+    return NextResponse.json({ error: "You can't remove your own admin role" }, { status: 400 });
+  }
+  const user = await updateUser(auth.principal.orgId, id, input);
+  if (user === "conflict") {
+    return NextResponse.json({ error: "That email is already registered" }, { status: 409 });
+  }
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  return NextResponse.json(user);
+}
+
+// Also ends the user's sessions
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  if (id === auth.principal.userId) {
+    return NextResponse.json({ error: "You can't delete your own account" }, { status: 400 });
+  }
+  if (!(await deleteUser(auth.principal.orgId, id))) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, createUser, listUsers, validateUserInput, type UserInput } from "@/lib/auth";
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ users: await listUsers(auth.principal.orgId) });
+}
+
+// Body: { email, name, password, role?, agent? }. role defaults to agent; agent is the name
+// their calls are recorded under
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const input = (await req.json().catch(() => null)) as UserInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const validationError = validateUserInput(input, true);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  const user = await createUser(auth.principal.orgId, input);
+  if (!user) {
+    return NextResponse.json({ error: "That email is already registered" }, { status: 409 });
+  }
+  return NextResponse.json(user, { status: 201 });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getWebhook, listDeliveries } from "@/lib/webhooks";
+
+// Delivery log for one webhook, newest first, with every attempt's status or error
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  if (!(await getWebhook(auth.principal.orgId, id))) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  return NextResponse.json({ deliveries: await listDeliveries(id) });
+}
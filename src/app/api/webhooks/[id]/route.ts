@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { deleteWebhook, getWebhook, redactSecret, updateWebhook, validateWebhookInput, type WebhookInput } from "@/lib/webhooks";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const webhook = await getWebhook(auth.principal.orgId, id);
+  if (!webhook) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  return NextResponse.json(redactSecret(webhook));
+}
+
+// Changes url, events, description or active; fields left out are kept
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const input = (await req.json().catch(() => null)) as WebhookInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const validationError = validateWebhookInput(input, false);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  const webhook = await updateWebhook(auth.principal.orgId, id, input);
+  if (!webhook) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  return NextResponse.json(redactSecret(webhook));
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  if (!(await deleteWebhook(auth.principal.orgId, id))) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getWebhook, sendTestEvent } from "@/lib/webhooks";
+
+// Sends a signed webhook.test event with a sample analysis payload and returns the
+// delivery after its first attempt, so a receiver can be checked without analyzing a call
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { id } = await params;
+  const webhook = await getWebhook(auth.principal.orgId, id);
+  if (!webhook) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  return NextResponse.json(await sendTestEvent(webhook));
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createWebhook, listWebhooks, redactSecret, validateWebhookInput, type WebhookInput } from "@/lib/webhooks";
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return NextResponse.json({ webhooks: (await listWebhooks(auth.principal.orgId)).map(redactSecret) });
+}
+
+// The response is the only time the signing secret is shown in full
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const input = (await req.json().catch(() => null)) as WebhookInput | null;
+  if (!input) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const validationError = validateWebhookInput(input, true);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  return NextResponse.json(await createWebhook(auth.principal.orgId, input), { status: 201 });
+}
@@ -0,0 +1,283 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import styles from "./page.module.css";
+
+type JobStatus = "queued" | "processing" | "completed" | "failed";
+
+interface BatchJob {
+  id: string;
+  fileName: string;
+  size: number;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  result?: { callId: string; summary: { percentage: number; grade: string; fatalErrors: { name: string }[] } };
+}
+
+type BatchCounts = Record<JobStatus, number> & { total: number };
+
+interface Batch {
+  id: string;
+  createdAt: string;
+  jobs: BatchJob[];
+  counts: BatchCounts;
+}
+
+interface BatchSummary {
+  id: string;
+  createdAt: string;
+  scorecardId: string;
+  counts: BatchCounts;
+}
+
+interface ScorecardSummary {
+  id: string;
+  name: string;
+  version: number;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const statusLabels: Record<JobStatus, string> = {
+  queued: "Queued",
+  processing: "Processing",
+  completed: "Done",
+  failed: "Failed",
+};
+
+export default function BatchPage() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [history, setHistory] = useState<BatchSummary[]>([]);
+  const [scorecards, setScorecards] = useState<ScorecardSummary[]>([]);
+  const [scorecardId, setScorecardId] = useState("default");
+  const [scoringMode, setScoringMode] = useState<"keyword" | "llm">("keyword");
+  const [language, setLanguage] = useState("auto");
+
+  const loadHistory = useCallback(() => {
+    fetch("/api/batches")
+      .then(res => (res.ok ? res.json() : { batches: [] }))
+      .then(data => setHistory(data.batches))
+      .catch(() => setHistory([]));
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/scorecards")
+      .then(res => (res.ok ? res.json() : { scorecards: [] }))
+      .then(data => setScorecards(data.scorecards))
+      .catch(() => setScorecards([]));
+    loadHistory();
+  }, [loadHistory]);
+
+  const loadBatch = useCallback(async (id: string) => {
+    const res = await fetch(`/api/batches/${id}`);
+    if (res.ok) setBatch(await res.json());
+  }, []);
+
+  // Poll while any job is still waiting or running
+  const batchId = batch?.id;
+  const inFlight = batch ? batch.counts.queued + batch.counts.processing : 0;
+  useEffect(() => {
+    if (!batchId) return;
+    if (!inFlight) {
+      loadHistory();
+      return;
+    }
+    const timer = setTimeout(() => loadBatch(batchId), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batchId, inFlight, batch, loadBatch, loadHistory]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []));
+    setError(null);
+  };
+
+  const handleUpload = async () => {
+    if (!files.length) return;
+    setUploading(true);
+    setError(null);
+    const formData = new FormData();
+    files.forEach(file => formData.append("files", file));
+    formData.append("scorecardId", scorecardId);
+    formData.append("scoringMode", scoringMode);
+    formData.append("language", language);
+    const res = await fetch("/api/batches", { method: "POST", body: formData });
+    const data = await res.json().catch(() => ({ error: "Upload failed" }));
+    if (res.ok) {
+      setBatch(data);
+      setFiles([]);
+      loadHistory();
+    } else {
+      setError(data.error ?? "Upload failed");
+    }
+    setUploading(false);
+  };
+
+  const retry = async (jobIds?: string[]) => {
+    if (!batch) return;
+    const res = await fetch(`/api/batches/${batch.id}/retry`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(jobIds ? { jobIds } : {}),
+    });
+    if (res.ok) setBatch(await res.json());
+  };
+
+  const progress = batch && batch.counts.total
+    ? Math.round(((batch.counts.completed + batch.counts.failed) / batch.counts.total) * 100)
+    : 0;
+
+  return (
+    <main className={styles.container}>
+      <h1 className={styles.title}>Batch Analysis</h1>
+      <div className={styles.dropzone}>
+        <input
+          type="file"
+          multiple
+          accept=".mp3,.wav,.m4a,.ogg,.flac,.webm,.zip,audio/*,application/zip"
+          onChange={handleFileChange}
+          className={styles.fileInput}
+        />
+        <span>
+          {files.length
+            ? `${files.length} file${files.length === 1 ? "" : "s"} selected`
+            : "Drag & Drop or Click to Upload recordings or a .zip"}
+        </span>
+      </div>
+      <div className={styles.options}>
+        {scorecards.length > 0 && (
+          <>
+            <label htmlFor="scorecard">Scorecard</label>
+            <select
+              id="scorecard"
+              value={scorecardId}
+              onChange={(e) => setScorecardId(e.target.value)}
+              className={styles.select}
+            >
+              {scorecards.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name} (v{s.version})
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        <label htmlFor="scoringMode">Scoring</label>
+        <select
+          id="scoringMode"
+          value={scoringMode}
+          onChange={(e) => setScoringMode(e.target.value as "keyword" | "llm")}
+          className={styles.select}
+        >
+          <option value="keyword">Keyword rules</option>
+          <option value="llm">LLM rubric</option>
+        </select>
+        <label htmlFor="language">Language</label>
+        <select
+          id="language"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          className={styles.select}
+        >
+          <option value="auto">Auto-detect</option>
+          <option value="hi">Hindi</option>
+          <option value="hinglish">Hinglish</option>
+          <option value="hi-Latn">Romanized Hindi</option>
+          <option value="en">English</option>
+        </select>
+      </div>
+      <button
+        className={styles.processBtn}
+        onClick={handleUpload}
+        disabled={!files.length || uploading}
+      >
+        {uploading ? "Uploading..." : "Start Batch"}
+      </button>
+      {error && <p className={styles.error}>{error}</p>}
+      {batch && (
+        <div className={styles.batchSection}>
+          <div className={styles.batchHeader}>
+            <span>
+              {batch.counts.completed} done · {batch.counts.failed} failed · {inFlight} remaining
+            </span>
+            {batch.counts.failed > 0 && (
+              <button className={styles.retryBtn} onClick={() => retry()}>
+                Retry all failed
+              </button>
+            )}
+          </div>
+          <div className={styles.progressBar}>
+            <div className={styles.progressFill} style={{ width: `${progress}%` }} />
+          </div>
+          <table className={styles.jobsTable}>
+            <thead>
+              <tr>
+                <th>File</th>
+                <th>Status</th>
+                <th>Score</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {batch.jobs.map((job) => (
+                <tr key={job.id}>
+                  <td>{job.fileName}</td>
+                  <td>
+                    <span className={`${styles.status} ${styles[job.status]}`}>{statusLabels[job.status]}</span>
+                    {job.attempts > 1 && <span className={styles.attempts}>attempt {job.attempts}</span>}
+                    {job.error && <div className={styles.jobError}>{job.error}</div>}
+                  </td>
+                  <td>
+                    {job.result && (
+                      <>
+                        <Link href={`/history/${job.result.callId}`}>
+                          {job.result.summary.percentage}% {job.result.summary.grade}
+                        </Link>
+                        {job.result.summary.fatalErrors.length > 0 && (
+                          <span className={styles.fatalTag}>Fatal</span>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    {job.status === "failed" && (
+                      <button className={styles.retryBtn} onClick={() => retry([job.id])}>
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {history.length > 0 && (
+        <div className={styles.batchSection}>
+          <h2>Recent batches</h2>
+          <ul className={styles.historyList}>
+            {history.map((b) => (
+              <li key={b.id}>
+                <button
+                  type="button"
+                  className={b.id === batch?.id ? `${styles.historyItem} ${styles.historyActive}` : styles.historyItem}
+                  onClick={() => loadBatch(b.id)}
+                >
+                  <span>{new Date(b.createdAt).toLocaleString()}</span>
+                  <span>{b.scorecardId}</span>
+                  <span>
+                    {b.counts.completed}/{b.counts.total} done
+                    {b.counts.failed > 0 && `, ${b.counts.failed} failed`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import styles from "./page.module.css";
+
+interface CalibrationRow {
+  key: string;
+  name: string;
+  reviewed: number;
+  overridden: number;
+  agreementRate: number;
+  meanAbsoluteError: number;
+  meanAbsoluteErrorPct: number;
+  bias: number;
+}
+
+interface CalibrationReport {
+  reviewedCalls: number;
+  parameters: CalibrationRow[];
+}
+
+// Below this agreement rate an analyzer's scores shouldn't be trusted without review
+const TRUST_THRESHOLD = 80;
+
+export default function CalibrationPage() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    fetch(`/api/calibration?${params}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setReport)
+      .catch(() => setReport(null));
+  }, [from, to]);
+
+  return (
+    <main className={styles.container}>
+      <h1 className={styles.title}>Analyzer Calibration</h1>
+      <div className={styles.filters}>
+        <label>
+          From <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={styles.input} />
+        </label>
+        <label>
+          To <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={styles.input} />
+        </label>
+        {report && <span>{report.reviewedCalls} reviewed call{report.reviewedCalls === 1 ? "" : "s"}</span>}
+      </div>
+      {report && report.reviewedCalls === 0 && (
+        <p className={styles.empty}>No reviewed calls yet. Review calls from the History page to build this report.</p>
+      )}
+      {report && report.reviewedCalls > 0 && (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Parameter</th>
+              <th>Reviewed</th>
+              <th>Overridden</th>
+              <th>Agreement</th>
+              <th>Mean error</th>
+              <th>Bias</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.parameters.map((row) => (
+              <tr key={row.key}>
+                <td>
+                  {row.name}
+                  {row.agreementRate < TRUST_THRESHOLD && <span className={styles.warnTag}>Needs tuning</span>}
+                </td>
+                <td>{row.reviewed}</td>
+                <td>{row.overridden}</td>
+                <td>{row.agreementRate}%</td>
+                <td>{row.meanAbsoluteError} pts ({row.meanAbsoluteErrorPct}%)</td>
+                <td title="Human minus automated; negative means the analyzer is too generous">
+                  {row.bias > 0 ? "+" : ""}{row.bias}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
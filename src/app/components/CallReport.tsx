@@ -0,0 +1,236 @@
+"use client";
+import React from "react";
+import styles from "./CallReport.module.css";
+
+export interface ResultParameter {
+  key: string;
+  name: string;
+  weight: number;
+  description: string;
+  type: "PASS_FAIL" | "SCORE";
+  fatal: boolean;
+}
+
+export interface ScoreSummary {
+  score: number;
+  maxScore: number;
+  percentage: number;
+  rawPercentage: number;
+  grade: string;
+  fatalErrors: { key: string; name: string }[];
+}
+
+export interface Evidence {
+  text: string;
+  start: number;
+  end: number;
+  keywords: string[];
+  rule: string;
+}
+
+export interface ParameterDetail {
+  reason: string;
+  evidence: Evidence[];
+  mode: "keyword" | "llm";
+}
+
+export interface CallOutcome {
+  promiseToPay: boolean;
+  amount: number | null;
+  date: { date: string; phrase: string } | null;
+  refusal: boolean;
+  refusalReason: string | null;
+  dispute: boolean;
+  callbackRequested: boolean;
+  suggestedDisposition: { code: string; label: string } | null;
+  evidence: Evidence[];
+}
+
+export interface ConversationDynamics {
+  agent: { talkShare: number | null; wordsPerMinute: number | null; interruptions: number };
+  customer: { talkShare: number | null; wordsPerMinute: number | null; interruptions: number };
+  longestMonologue: { role: string; seconds: number } | null;
+  silenceSeconds: number;
+  deadAir: { seconds: number }[];
+  overtalkSeconds: number;
+  holds: { seconds: number; announced: boolean }[];
+}
+
+export interface FeedbackResponse {
+  scores: Record<string, number>;
+  summary: ScoreSummary;
+  details: Record<string, ParameterDetail>;
+  scoring: { requested: "keyword" | "llm"; model: string | null; fallbackReason?: string };
+  language: { requested: string; detected: string; packs: string[] };
+  overallFeedback: string;
+  observation: string;
+  scorecard: { id: string; version: number; name: string };
+  parameters: ResultParameter[];
+  // Missing on calls scored before these were measured
+  dynamics?: ConversationDynamics;
+  outcome?: CallOutcome;
+}
+
+export interface ScoreOverride {
+  score: number;
+  automatedScore: number;
+  comment: string;
+  reviewer: string;
+  at: string;
+}
+
+export const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+
+function describeOutcome(outcome: CallOutcome): string[] {
+  const lines: string[] = [];
+  if (outcome.promiseToPay) {
+    const amount = outcome.amount !== null ? ` ₹${outcome.amount.toLocaleString("en-IN")}` : "";
+    const date = outcome.date ? ` by ${outcome.date.date} ("${outcome.date.phrase}")` : "";
+    lines.push(`Promise to pay${amount}${date}`);
+  }
+  if (outcome.refusal) lines.push("Refused to pay");
+  if (outcome.refusalReason) lines.push(`Reason for not paying: ${outcome.refusalReason}`);
+  if (outcome.dispute) lines.push("Disputed the dues");
+  if (outcome.callbackRequested) lines.push("Asked to be called back");
+  return lines.length ? lines : ["No commitment"];
+}
+
+function describeDynamics(d: ConversationDynamics): string {
+  const parts = [
+    `Talk time: agent ${d.agent.talkShare ?? "-"}%, customer ${d.customer.talkShare ?? "-"}%`,
+    `agent ${d.agent.wordsPerMinute ?? "-"} words/min`,
+    `interruptions: agent ${d.agent.interruptions}, customer ${d.customer.interruptions} (${d.overtalkSeconds}s overtalk)`,
+    `dead air: ${d.deadAir.length} (${d.silenceSeconds}s silence in all)`,
+    `holds: ${d.holds.length}${d.holds.some(h => !h.announced) ? `, ${d.holds.filter(h => !h.announced).length} unannounced` : ""}`,
+  ];
+  if (d.longestMonologue) parts.push(`longest monologue: ${d.longestMonologue.seconds}s (${d.longestMonologue.role})`);
+  return parts.join(" · ");
+}
+
+// Summary, per-parameter scores with evidence, and feedback for one analysis. Evidence
+// only seeks when the audio is loaded, i.e. when onSeek is given
+export default function CallReport({ feedback, onSeek, overrides }: {
+  feedback: FeedbackResponse;
+  onSeek?: (seconds: number) => void;
+  overrides?: Record<string, ScoreOverride>;
+}) {
+  return (
+    <>
+      <div className={feedback.summary.fatalErrors.length ? `${styles.summary} ${styles.summaryFatal}` : styles.summary}>
+        <div className={styles.summaryScore}>
+          {feedback.summary.percentage}%
+          <span className={styles.summaryGrade}>{feedback.summary.grade}</span>
+        </div>
+        <div>
+          {feedback.summary.score} / {feedback.summary.maxScore} points
+          {feedback.summary.fatalErrors.length > 0 && (
+            <div className={styles.fatalList}>
+              Fatal errors: {feedback.summary.fatalErrors.map((f) => f.name).join(", ")}
+              {" "}(before fatal rules: {feedback.summary.rawPercentage}%)
+            </div>
+          )}
+        </div>
+      </div>
+      {feedback.outcome && (
+        <div className={styles.outcome}>
+          <h2>Call Outcome</h2>
+          <ul className={styles.outcomeList}>
+            {describeOutcome(feedback.outcome).map((line) => <li key={line}>{line}</li>)}
+          </ul>
+          {feedback.outcome.suggestedDisposition && (
+            <p className={styles.scorecardName}>
+              Suggested disposition: {feedback.outcome.suggestedDisposition.code} ({feedback.outcome.suggestedDisposition.label})
+            </p>
+          )}
+        </div>
+      )}
+      {feedback.dynamics && <p className={styles.scorecardName}>{describeDynamics(feedback.dynamics)}</p>}
+      <h2>Scores</h2>
+      <p className={styles.scorecardName}>
+        {feedback.scorecard.name} (v{feedback.scorecard.version})
+        {` · language: ${feedback.language.detected}`}
+        {feedback.scoring.model && ` · scored by ${feedback.scoring.model}`}
+      </p>
+      {feedback.scoring.fallbackReason && (
+        <p className={styles.fallbackNote}>
+          Keyword fallback used: {feedback.scoring.fallbackReason}
+        </p>
+      )}
+      <table className={styles.scoresTable}>
+        <thead>
+          <tr>
+            <th>Parameter</th>
+            <th>Score</th>
+            <th>Max</th>
+            <th>Description</th>
+          </tr>
+        </thead>
+        <tbody>
+          {feedback.parameters.map((param) => {
+            const detail = feedback.details[param.key];
+            const override = overrides?.[param.key];
+            return (
+              <React.Fragment key={param.key}>
+                <tr>
+                  <td>{param.name}{param.fatal && <span className={styles.fatalTag}>Fatal</span>}</td>
+                  <td>
+                    {feedback.scores[param.key] ?? 0}
+                    {override && <span className={styles.overrideTag}>auto {override.automatedScore}</span>}
+                  </td>
+                  <td>{param.weight}</td>
+                  <td>{param.description}</td>
+                </tr>
+                {(detail || override) && (
+                  <tr className={styles.evidenceRow}>
+                    <td colSpan={4}>
+                      {override && (
+                        <div className={styles.overrideNote}>
+                          Overridden by {override.reviewer} on {new Date(override.at).toLocaleDateString()}: {override.comment}
+                        </div>
+                      )}
+                      {detail && (
+                        <div className={styles.evidenceReason}>
+                          <span className={styles.modeTag}>{detail.mode === "llm" ? "LLM" : "Keyword"}</span>
+                          {detail.reason}
+                        </div>
+                      )}
+                      {detail?.evidence.map((item, i) => (
+                        <button
+                          key={i}
+                          type="button"
+                          className={styles.evidenceItem}
+                          onClick={() => onSeek?.(item.start)}
+                          disabled={!onSeek}
+                          title={item.rule}
+                        >
+                          <span className={styles.evidenceTime}>
+                            {formatTime(item.start)}–{formatTime(item.end)}
+                          </span>
+                          <span>{item.text}</span>
+                          {item.keywords.length > 0 && (
+                            <span className={styles.evidenceKeywords}>{item.keywords.join(", ")}</span>
+                          )}
+                        </button>
+                      ))}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className={styles.textFields}>
+        <div>
+          <label>Overall Feedback</label>
+          <textarea value={feedback.overallFeedback} readOnly className={styles.textarea} />
+        </div>
+        <div>
+          <label>Observation</label>
+          <textarea value={feedback.observation} readOnly className={styles.textarea} />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,23 @@
+import React from "react";
+import styles from "./CallReport.module.css";
+
+const FORMATS = [
+  { format: "pdf", label: "PDF" },
+  { format: "xlsx", label: "Excel" },
+  { format: "csv", label: "CSV" },
+];
+
+// Download links for an export endpoint; `url` may already carry a query string
+export default function ExportLinks({ url, label = "Download" }: { url: string; label?: string }) {
+  const separator = url.includes("?") ? "&" : "?";
+  return (
+    <span className={styles.exportLinks}>
+      {label}:
+      {FORMATS.map(({ format, label: formatLabel }) => (
+        <a key={format} href={`${url}${separator}format=${format}`} download>
+          {formatLabel}
+        </a>
+      ))}
+    </span>
+  );
+}
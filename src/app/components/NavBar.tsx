@@ -0,0 +1,41 @@
+"use client";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import styles from "../layout.module.css";
+import { hasRole, useSession, type Role } from "./useSession";
+
+const LINKS: { href: string; label: string; role: Role }[] = [
+  { href: "/", label: "Analyze", role: "reviewer" },
+  { href: "/batch", label: "Batch", role: "reviewer" },
+  { href: "/history", label: "History", role: "agent" },
+  { href: "/dashboard", label: "Dashboard", role: "agent" },
+  { href: "/calibration", label: "Calibration", role: "reviewer" },
+  { href: "/live", label: "Live", role: "reviewer" },
+];
+
+export default function NavBar() {
+  const onLogin = usePathname() === "/login";
+  const session = useSession(!onLogin);
+
+  if (onLogin) return null;
+
+  const logout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => null);
+    window.location.href = "/login";
+  };
+
+  return (
+    <nav className={styles.nav}>
+      {LINKS.filter(link => !session || hasRole(session, link.role)).map(link => (
+        <Link key={link.href} href={link.href} className={styles.navLink}>{link.label}</Link>
+      ))}
+      {session && (
+        <span className={styles.userMenu}>
+          {session.name} · {session.role}
+          {session.organization && ` · ${session.organization.name}`}
+          <button type="button" className={styles.logoutBtn} onClick={logout}>Sign out</button>
+        </span>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+import React, { useEffect, useRef } from "react";
+import styles from "./TranscriptView.module.css";
+import { formatTime } from "./CallReport";
+
+export interface TranscriptUtterance {
+  transcript: string;
+  start: number;
+  end: number;
+  sentiment?: string;
+  sentiment_score?: number;
+  speaker?: number;
+  channel?: number;
+  role?: "agent" | "customer" | "unknown";
+}
+
+const PII_LABELS: Record<string, string> = {
+  PHONE: "phone number",
+  AADHAAR: "Aadhaar number",
+  PAN: "PAN",
+  EMAIL: "email address",
+  UPI: "UPI ID",
+  NAME: "name",
+  NUMBER: "account or other number",
+};
+
+// "2 names, 1 phone number" from the redaction counts, or null when nothing was masked
+export function redactionSummary(redactions: Record<string, number> | undefined): string | null {
+  const found = Object.entries(redactions ?? {})
+    .map(([type, n]) => `${n} ${PII_LABELS[type] ?? type.toLowerCase()}${n === 1 ? "" : "s"}`);
+  return found.length ? found.join(", ") : null;
+}
+
+const speakerLabel = (u: TranscriptUtterance) => {
+  if (u.role === "agent") return "Agent";
+  if (u.role === "customer") return "Customer";
+  const speakerId = u.speaker ?? u.channel;
+  return speakerId !== undefined ? `Speaker ${speakerId}` : "";
+};
+
+const sentimentClass = (sentiment?: string) =>
+  sentiment === "positive" ? styles.positive : sentiment === "negative" ? styles.negative : "";
+
+// Scrolling conversation view. With currentTime the line being spoken is highlighted and
+// kept in view; with onSeek each line jumps playback to its start
+export default function TranscriptView({ utterances, currentTime, onSeek }: {
+  utterances: TranscriptUtterance[];
+  currentTime?: number;
+  onSeek?: (seconds: number) => void;
+}) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const active = currentTime === undefined
+    ? -1
+    : utterances.findIndex(u => currentTime >= u.start && currentTime < u.end);
+
+  // Scroll only the list, not the page, so the report stays where the reader left it
+  useEffect(() => {
+    const list = listRef.current;
+    const line = activeRef.current;
+    if (active < 0 || !list || !line) return;
+    const top = line.offsetTop;
+    if (top < list.scrollTop || top + line.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: top - list.clientHeight / 3, behavior: "smooth" });
+    }
+  }, [active]);
+
+  if (utterances.length === 0) {
+    return <p className={styles.empty}>No speech was transcribed.</p>;
+  }
+
+  return (
+    <div ref={listRef} className={styles.transcript}>
+      {utterances.map((u, i) => {
+        const classes = [styles.utterance, sentimentClass(u.sentiment), i === active ? styles.active : ""];
+        return (
+          <button
+            key={i}
+            ref={i === active ? activeRef : undefined}
+            type="button"
+            className={classes.filter(Boolean).join(" ")}
+            onClick={() => onSeek?.(u.start)}
+            disabled={!onSeek}
+            title={u.sentiment ? `Sentiment: ${u.sentiment}` : undefined}
+          >
+            <span className={styles.time}>{formatTime(u.start)}</span>
+            <span className={u.role === "agent" ? `${styles.speaker} ${styles.agent}` : styles.speaker}>
+              {speakerLabel(u)}
+            </span>
+            <span className={styles.text}>{u.transcript}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
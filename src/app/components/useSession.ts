@@ -0,0 +1,46 @@
+"use client";
+import { useEffect, useState } from "react";
+
+export type Role = "agent" | "reviewer" | "admin";
+
+export interface Session {
+  orgId: string;
+  role: Role;
+  name: string;
+  userId?: string;
+  agent: string | null;
+  organization: { id: string; name: string } | null;
+}
+
+const RANK: Record<Role, number> = { agent: 0, reviewer: 1, admin: 2 };
+
+export function hasRole(session: Session | null, role: Role): boolean {
+  return !!session && RANK[session.role] >= RANK[role];
+}
+
+export function toLogin(): void {
+  const next = window.location.pathname + window.location.search;
+  window.location.href = `/login?next=${encodeURIComponent(next)}`;
+}
+
+// The signed-in user, or null while loading. A session that has expired sends the
+// browser back to the login page
+export function useSession(enabled = true): Session | null {
+  const [session, setSession] = useState<Session | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetch("/api/auth/me")
+      .then(res => {
+        if (res.status === 401) {
+          toLogin();
+          return null;
+        }
+        return res.ok ? res.json() : null;
+      })
+      .then(setSession)
+      .catch(() => setSession(null));
+  }, [enabled]);
+
+  return session;
+}
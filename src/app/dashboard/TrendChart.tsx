@@ -0,0 +1,61 @@
+import React from "react";
+import styles from "./page.module.css";
+
+export interface TrendSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 28, left: 36 };
+
+// Plain SVG line chart on a fixed 0-100 scale, which is all the dashboard plots
+export default function TrendChart({ labels, series }: { labels: string[]; series: TrendSeries[] }) {
+  const innerWidth = WIDTH - PAD.left - PAD.right;
+  const innerHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (labels.length > 1 ? (i / (labels.length - 1)) * innerWidth : innerWidth / 2);
+  const y = (value: number) => PAD.top + innerHeight - (Math.min(Math.max(value, 0), 100) / 100) * innerHeight;
+  // Thin out the axis labels so they don't overlap
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 8));
+
+  return (
+    <div className={styles.chart}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={series.map(s => s.label).join(" and ")}>
+        {[0, 25, 50, 75, 100].map(tick => (
+          <g key={tick}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" />
+            <text x={PAD.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#718096">{tick}</text>
+          </g>
+        ))}
+        {labels.map((label, i) => i % labelEvery === 0 && (
+          <text key={label} x={x(i)} y={HEIGHT - 8} textAnchor="middle" fontSize="11" fill="#718096">{label}</text>
+        ))}
+        {series.map(s => (
+          <g key={s.label}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth="2"
+              points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(" ")}
+            />
+            {s.values.map((v, i) => (
+              <circle key={i} cx={x(i)} cy={y(v)} r="3" fill={s.color}>
+                <title>{`${labels[i]}: ${s.label} ${v}%`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className={styles.legend}>
+        {series.map(s => (
+          <span key={s.label}>
+            <span className={styles.legendSwatch} style={{ background: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
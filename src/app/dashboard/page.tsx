@@ -0,0 +1,212 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import styles from "./page.module.css";
+import TrendChart from "./TrendChart";
+
+interface GroupStats {
+  name: string;
+  calls: number;
+  averagePercentage: number;
+  fatalRate: number;
+}
+
+interface ParameterStats {
+  key: string;
+  name: string;
+  fatal: boolean;
+  evaluated: number;
+  passRate: number;
+  averageScore: number;
+}
+
+interface DashboardResponse {
+  overall: GroupStats;
+  agents: GroupStats[];
+  teams: GroupStats[];
+  parameters: ParameterStats[];
+  trend: { period: string; calls: number; averagePercentage: number; fatalRate: number }[];
+  facets: { agents: string[]; teams: string[]; campaigns: string[] };
+}
+
+type Range = "7" | "30" | "90" | "all" | "custom";
+
+// How many of the weakest parameters to call out for coaching
+const WORST_COUNT = 5;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+
+function GroupTable({ title, rows }: { title: string; rows: GroupStats[] }) {
+  return (
+    <div className={styles.panel}>
+      <h2>{title}</h2>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Calls</th>
+            <th>Avg score</th>
+            <th>Fatal rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.name}>
+              <td>{row.name}</td>
+              <td>{row.calls}</td>
+              <td>{row.averagePercentage}%</td>
+              <td className={row.fatalRate > 0 ? styles.bad : undefined}>{row.fatalRate}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function DashboardPage() {
+  const [range, setRange] = useState<Range>("30");
+  const [from, setFrom] = useState(daysAgo(30));
+  const [to, setTo] = useState("");
+  const [trendInterval, setTrendInterval] = useState<"day" | "week" | "month">("day");
+  const [team, setTeam] = useState("");
+  const [agent, setAgent] = useState("");
+  const [campaign, setCampaign] = useState("");
+  const [data, setData] = useState<DashboardResponse | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ interval: trendInterval });
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (team) params.set("team", team);
+    if (agent) params.set("agent", agent);
+    if (campaign) params.set("campaign", campaign);
+    fetch(`/api/dashboard?${params}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setData)
+      .catch(() => setData(null));
+  }, [from, to, trendInterval, team, agent, campaign]);
+
+  const changeRange = (value: Range) => {
+    setRange(value);
+    if (value === "custom") return;
+    setFrom(value === "all" ? "" : daysAgo(Number(value)));
+    setTo("");
+  };
+
+  const worst = data?.parameters.filter(p => p.passRate < 100).slice(0, WORST_COUNT) ?? [];
+
+  return (
+    <main className={styles.container}>
+      <h1 className={styles.title}>QA Dashboard</h1>
+      <div className={styles.filters}>
+        <select value={range} onChange={(e) => changeRange(e.target.value as Range)} className={styles.input}>
+          <option value="7">Last 7 days</option>
+          <option value="30">Last 30 days</option>
+          <option value="90">Last 90 days</option>
+          <option value="all">All time</option>
+          <option value="custom">Custom range</option>
+        </select>
+        {range === "custom" && (
+          <>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={styles.input} />
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={styles.input} />
+          </>
+        )}
+        <select value={trendInterval} onChange={(e) => setTrendInterval(e.target.value as "day" | "week" | "month")} className={styles.input}>
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+          <option value="month">Monthly</option>
+        </select>
+        <select value={team} onChange={(e) => setTeam(e.target.value)} className={styles.input}>
+          <option value="">All teams</option>
+          {data?.facets.teams.map((t) => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select value={agent} onChange={(e) => setAgent(e.target.value)} className={styles.input}>
+          <option value="">All agents</option>
+          {data?.facets.agents.map((a) => <option key={a} value={a}>{a}</option>)}
+        </select>
+        <select value={campaign} onChange={(e) => setCampaign(e.target.value)} className={styles.input}>
+          <option value="">All campaigns</option>
+          {data?.facets.campaigns.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+      {data && data.overall.calls === 0 && (
+        <p className={styles.empty}>No analyzed calls in this range.</p>
+      )}
+      {data && data.overall.calls > 0 && (
+        <>
+          <div className={styles.tiles}>
+            <div className={styles.tile}>
+              <span className={styles.tileValue}>{data.overall.calls}</span>
+              <span>Calls</span>
+            </div>
+            <div className={styles.tile}>
+              <span className={styles.tileValue}>{data.overall.averagePercentage}%</span>
+              <span>Average score</span>
+            </div>
+            <div className={styles.tile}>
+              <span className={`${styles.tileValue} ${data.overall.fatalRate > 0 ? styles.bad : ""}`}>
+                {data.overall.fatalRate}%
+              </span>
+              <span>Fatal-error rate</span>
+            </div>
+          </div>
+          <div className={styles.panel}>
+            <h2>Trend</h2>
+            <TrendChart
+              labels={data.trend.map(t => t.period)}
+              series={[
+                { label: "Average score", color: "#3182ce", values: data.trend.map(t => t.averagePercentage) },
+                { label: "Fatal-error rate", color: "#e53e3e", values: data.trend.map(t => t.fatalRate) },
+              ]}
+            />
+          </div>
+          {worst.length > 0 && (
+            <div className={styles.panel}>
+              <h2>Where to focus coaching</h2>
+              {worst.map((p) => (
+                <div key={p.key} className={styles.barRow}>
+                  <span className={styles.barLabel}>
+                    {p.name}
+                    {p.fatal && <span className={styles.fatalTag}>Fatal</span>}
+                  </span>
+                  <div className={styles.bar}>
+                    <div className={styles.barFill} style={{ width: `${p.passRate}%` }} />
+                  </div>
+                  <span className={styles.barValue}>{p.passRate}% pass</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className={styles.panel}>
+            <h2>Parameters</h2>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Parameter</th>
+                  <th>Calls</th>
+                  <th>Pass rate</th>
+                  <th>Avg score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.parameters.map((p) => (
+                  <tr key={p.key}>
+                    <td>{p.name}{p.fatal && <span className={styles.fatalTag}>Fatal</span>}</td>
+                    <td>{p.evaluated}</td>
+                    <td>{p.passRate}%</td>
+                    <td>{p.averageScore}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className={styles.groups}>
+            <GroupTable title="Teams" rows={data.teams} />
+            <GroupTable title="Agents" rows={data.agents} />
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+import React, { useState } from "react";
+import styles from "../page.module.css";
+import type { ResultParameter, ScoreOverride } from "../../components/CallReport";
+
+export interface AuditEntry {
+  at: string;
+  reviewer: string;
+  action: "override" | "review";
+  parameter?: string;
+  from?: number;
+  to?: number;
+  comment: string;
+}
+
+export interface ReviewableCall {
+  id: string;
+  result: { scores: Record<string, number>; parameters: ResultParameter[] };
+  overrides?: Record<string, ScoreOverride>;
+  review?: { reviewer: string; at: string; comment?: string };
+  audit?: AuditEntry[];
+}
+
+interface Draft {
+  score: string;
+  comment: string;
+}
+
+export default function ReviewPanel<T extends ReviewableCall>({ call, onReviewed }: { call: T; onReviewed: (call: T) => void }) {
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const current = (key: string) => String(call.result.scores[key] ?? 0);
+  const draftFor = (key: string): Draft => drafts[key] ?? { score: current(key), comment: "" };
+  const setDraft = (key: string, patch: Partial<Draft>) =>
+    setDrafts(all => ({ ...all, [key]: { ...draftFor(key), ...patch } }));
+
+  const changed = call.result.parameters.filter(p => draftFor(p.key).score !== current(p.key));
+
+  const submit = async () => {
+    setError(null);
+    const missing = changed.find(p => !draftFor(p.key).comment.trim());
+    if (missing) {
+      setError(`Add a comment explaining the change to ${missing.name}`);
+      return;
+    }
+    setSaving(true);
+    const res = await fetch(`/api/calls/${call.id}/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        comment,
+        overrides: changed.map(p => ({
+          parameter: p.key,
+          score: Number(draftFor(p.key).score),
+          comment: draftFor(p.key).comment,
+        })),
+      }),
+    });
+    const data = await res.json().catch(() => ({ error: "Review failed" }));
+    if (res.ok) {
+      onReviewed(data);
+      setDrafts({});
+      setComment("");
+    } else {
+      setError(data.error ?? "Review failed");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className={styles.report}>
+      <h2>Review</h2>
+      {call.review && (
+        <p className={styles.meta}>
+          Last reviewed by {call.review.reviewer} on {new Date(call.review.at).toLocaleString()}
+        </p>
+      )}
+      <table className={styles.callsTable}>
+        <thead>
+          <tr>
+            <th>Parameter</th>
+            <th>Automated</th>
+            <th>Score</th>
+            <th>Comment</th>
+          </tr>
+        </thead>
+        <tbody>
+          {call.result.parameters.map((param) => {
+            const draft = draftFor(param.key);
+            const automated = call.overrides?.[param.key]?.automatedScore ?? call.result.scores[param.key] ?? 0;
+            return (
+              <tr key={param.key}>
+                <td>{param.name}</td>
+                <td>{automated}</td>
+                <td>
+                  {param.type === "PASS_FAIL" ? (
+                    <select
+                      value={draft.score}
+                      onChange={(e) => setDraft(param.key, { score: e.target.value })}
+                      className={styles.input}
+                    >
+                      <option value="0">Fail (0)</option>
+                      <option value={String(param.weight)}>Pass ({param.weight})</option>
+                    </select>
+                  ) : (
+                    <input
+                      type="number"
+                      min={0}
+                      max={param.weight}
+                      value={draft.score}
+                      onChange={(e) => setDraft(param.key, { score: e.target.value })}
+                      className={`${styles.input} ${styles.scoreInput}`}
+                    />
+                  )}
+                </td>
+                <td>
+                  <input
+                    value={draft.comment}
+                    onChange={(e) => setDraft(param.key, { comment: e.target.value })}
+                    placeholder={draft.score !== current(param.key) ? "Required for a change" : ""}
+                    className={`${styles.input} ${styles.commentInput}`}
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className={styles.reviewActions}>
+        <input
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Review note (optional)"
+          className={`${styles.input} ${styles.commentInput}`}
+        />
+        <button type="button" className={styles.clearBtn} onClick={submit} disabled={saving}>
+          {changed.length ? `Save ${changed.length} override${changed.length === 1 ? "" : "s"}` : "Mark reviewed"}
+        </button>
+      </div>
+      {error && <p className={styles.error}>{error}</p>}
+      {call.audit && call.audit.length > 0 && (
+        <>
+          <h3>Audit trail</h3>
+          <ul className={styles.auditList}>
+            {[...call.audit].reverse().map((entry, i) => (
+              <li key={i}>
+                <span className={styles.auditTime}>{new Date(entry.at).toLocaleString()}</span>
+                {entry.action === "override"
+                  ? ` ${entry.reviewer} changed ${call.result.parameters.find(p => p.key === entry.parameter)?.name ?? entry.parameter} from ${entry.from} to ${entry.to}: ${entry.comment}`
+                  : ` ${entry.reviewer} marked the call reviewed${entry.comment ? `: ${entry.comment}` : ""}`}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
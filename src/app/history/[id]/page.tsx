@@ -0,0 +1,90 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import styles from "../page.module.css";
+import CallReport, { formatTime, type FeedbackResponse, type ScoreOverride } from "../../components/CallReport";
+import ExportLinks from "../../components/ExportLinks";
+import TranscriptView, { redactionSummary, type TranscriptUtterance } from "../../components/TranscriptView";
+import { hasRole, useSession } from "../../components/useSession";
+import ReviewPanel, { type AuditEntry } from "./ReviewPanel";
+
+interface CallRecord {
+  id: string;
+  fileName: string;
+  duration: number | null;
+  agent: string | null;
+  uploadedBy?: string;
+  team?: string | null;
+  campaign: string | null;
+  transcript: { provider: string; utterances: TranscriptUtterance[] };
+  redactions?: Record<string, number>;
+  result: FeedbackResponse & {
+    speakerAttribution: { source: "channel" | "diarization" | "none"; agent?: number };
+  };
+  overrides?: Record<string, ScoreOverride>;
+  review?: { reviewer: string; at: string; comment?: string };
+  audit?: AuditEntry[];
+  createdAt: string;
+}
+
+export default function CallDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [call, setCall] = useState<CallRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const session = useSession();
+
+  useEffect(() => {
+    fetch(`/api/calls/${id}`)
+      .then(async res => {
+        const data = await res.json();
+        if (res.ok) setCall(data);
+        else setError(data.error ?? "Could not load call");
+      })
+      .catch(() => setError("Could not load call"));
+  }, [id]);
+
+  if (error || !call) {
+    return (
+      <main className={styles.container}>
+        <p className={styles.empty}>{error ?? "Loading..."}</p>
+        <Link href="/history">Back to history</Link>
+      </main>
+    );
+  }
+
+  // Calls saved before roles were stored only have speaker/channel ids
+  const { speakerAttribution } = call.result;
+  const withRole = (u: TranscriptUtterance): TranscriptUtterance => {
+    if (u.role) return u;
+    const speakerId = speakerAttribution.source === "channel" ? u.channel : u.speaker;
+    if (speakerId === undefined || speakerAttribution.agent === undefined) return u;
+    return { ...u, role: speakerId === speakerAttribution.agent ? "agent" : "customer" };
+  };
+
+  return (
+    <main className={styles.container}>
+      <h1 className={styles.title}>{call.fileName}</h1>
+      <div className={styles.meta}>
+        <span>Analyzed {new Date(call.createdAt).toLocaleString()}</span>
+        {call.uploadedBy && <span>Uploaded by {call.uploadedBy}</span>}
+        {call.agent && <span>Agent: {call.agent}</span>}
+        {call.team && <span>Team: {call.team}</span>}
+        {call.campaign && <span>Campaign: {call.campaign}</span>}
+        {call.duration !== null && <span>Duration: {formatTime(call.duration)}</span>}
+        <span>Transcribed by {call.transcript.provider}</span>
+        {redactionSummary(call.redactions) && <span>PII masked: {redactionSummary(call.redactions)}</span>}
+        <ExportLinks url={`/api/calls/${call.id}/export`} />
+        <Link href="/history">Back to history</Link>
+      </div>
+      <div className={styles.report}>
+        <CallReport feedback={call.result} overrides={call.overrides} />
+      </div>
+      {hasRole(session, "reviewer") && <ReviewPanel call={call} onReviewed={setCall} />}
+      <div className={styles.transcript}>
+        <h2>Transcript</h2>
+        <TranscriptView utterances={call.transcript.utterances.map(withRole)} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import styles from "./page.module.css";
+import { formatTime } from "../components/CallReport";
+import ExportLinks from "../components/ExportLinks";
+
+interface CallSummary {
+  id: string;
+  fileName: string;
+  duration: number | null;
+  agent: string | null;
+  team: string | null;
+  campaign: string | null;
+  scorecard: { id: string; version: number; name: string };
+  percentage: number;
+  grade: string;
+  fatalErrors: number;
+  reviewed: boolean;
+  createdAt: string;
+}
+
+interface Facets {
+  agents: string[];
+  teams: string[];
+  campaigns: string[];
+  grades: string[];
+}
+
+interface Filters {
+  q: string;
+  agent: string;
+  team: string;
+  campaign: string;
+  grade: string;
+  fatal: boolean;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = { q: "", agent: "", team: "", campaign: "", grade: "", fatal: false, from: "", to: "" };
+
+// Wait for typing to settle before re-querying
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function HistoryPage() {
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [calls, setCalls] = useState<CallSummary[]>([]);
+  const [facets, setFacets] = useState<Facets>({ agents: [], teams: [], campaigns: [], grades: [] });
+  const [loading, setLoading] = useState(true);
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, String(value));
+  }
+  const query = params.toString();
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setLoading(true);
+      fetch(`/api/calls?${query}`)
+        .then(res => (res.ok ? res.json() : { calls: [], facets: null }))
+        .then(data => {
+          setCalls(data.calls);
+          if (data.facets) setFacets(data.facets);
+        })
+        .catch(() => setCalls([]))
+        .finally(() => setLoading(false));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const update = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const value = e.target.type === "checkbox" ? (e.target as HTMLInputElement).checked : e.target.value;
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <main className={styles.container}>
+      <h1 className={styles.title}>Call History</h1>
+      <div className={styles.filters}>
+        <input
+          type="search"
+          placeholder="Search file, agent, team or transcript"
+          value={filters.q}
+          onChange={update("q")}
+          className={`${styles.input} ${styles.search}`}
+        />
+        <select value={filters.agent} onChange={update("agent")} className={styles.input}>
+          <option value="">All agents</option>
+          {facets.agents.map((a) => <option key={a} value={a}>{a}</option>)}
+        </select>
+        <select value={filters.team} onChange={update("team")} className={styles.input}>
+          <option value="">All teams</option>
+          {facets.teams.map((t) => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select value={filters.campaign} onChange={update("campaign")} className={styles.input}>
+          <option value="">All campaigns</option>
+          {facets.campaigns.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select value={filters.grade} onChange={update("grade")} className={styles.input}>
+          <option value="">All grades</option>
+          {facets.grades.map((g) => <option key={g} value={g}>{g}</option>)}
+        </select>
+        <label>
+          From <input type="date" value={filters.from} onChange={update("from")} className={styles.input} />
+        </label>
+        <label>
+          To <input type="date" value={filters.to} onChange={update("to")} className={styles.input} />
+        </label>
+        <label>
+          <input type="checkbox" checked={filters.fatal} onChange={update("fatal")} /> Fatal errors only
+        </label>
+        <button type="button" className={styles.clearBtn} onClick={() => setFilters(emptyFilters)}>
+          Clear
+        </button>
+      </div>
+      {calls.length > 0 && (
+        <div className={styles.exportBar}>
+          <ExportLinks url={`/api/calls/export?${query}`} label={`Export ${calls.length} call${calls.length === 1 ? "" : "s"}`} />
+        </div>
+      )}
+      {!loading && calls.length === 0 ? (
+        <p className={styles.empty}>No analyzed calls match these filters.</p>
+      ) : (
+        <table className={styles.callsTable}>
+          <thead>
+            <tr>
+              <th>Analyzed</th>
+              <th>File</th>
+              <th>Agent</th>
+              <th>Team</th>
+              <th>Campaign</th>
+              <th>Duration</th>
+              <th>Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calls.map((call) => (
+              <tr key={call.id}>
+                <td>{new Date(call.createdAt).toLocaleString()}</td>
+                <td>
+                  <Link href={`/history/${call.id}`}>{call.fileName}</Link>
+                </td>
+                <td>{call.agent ?? "–"}</td>
+                <td>{call.team ?? "–"}</td>
+                <td>{call.campaign ?? "–"}</td>
+                <td>{call.duration !== null ? formatTime(call.duration) : "–"}</td>
+                <td>
+                  {call.percentage}% {call.grade}
+                  {call.fatalErrors > 0 && <span className={styles.fatalTag}>Fatal</span>}
+                  {call.reviewed && <span className={styles.reviewedTag}>Reviewed</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
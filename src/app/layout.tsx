@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import NavBar from "./components/NavBar";
 import styles from "./layout.module.css";
 
 export const metadata: Metadata = {
@@ -13,7 +14,10 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={styles.body}>{children}</body>
+      <body className={styles.body}>
+        <NavBar />
+        {children}
+      </body>
     </html>
   );
 }
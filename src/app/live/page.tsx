@@ -0,0 +1,230 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import styles from "./page.module.css";
+import TranscriptView, { type TranscriptUtterance } from "../components/TranscriptView";
+import { formatTime } from "../components/CallReport";
+
+type LiveStatus = "live" | "ending" | "ended";
+
+interface LiveAlert {
+  id: string;
+  rule: string;
+  severity: "critical" | "warning";
+  message: string;
+  at: number;
+  text?: string;
+}
+
+interface LiveScore {
+  scores: Record<string, number>;
+  summary: { percentage: number; grade: string };
+  parameters: { key: string; name: string; weight: number; fatal: boolean }[];
+}
+
+interface LiveSummary {
+  id: string;
+  status: LiveStatus;
+  agent: string | null;
+  elapsed: number;
+  alerts: LiveAlert[];
+  percentage: number;
+  grade: string;
+}
+
+interface LiveCall {
+  id: string;
+  status: LiveStatus;
+  agent: string | null;
+  elapsed: number;
+  utterances: TranscriptUtterance[];
+  interim: TranscriptUtterance | null;
+  alerts: LiveAlert[];
+  score: LiveScore;
+  callId: string | null;
+  error?: string;
+}
+
+type LiveEvent =
+  | { type: "snapshot"; snapshot: LiveCall }
+  | { type: "utterance"; utterance: TranscriptUtterance; final: boolean; elapsed: number }
+  | { type: "alert"; alert: LiveAlert }
+  | { type: "score"; score: LiveScore }
+  | { type: "ended"; callId: string | null; error?: string };
+
+const POLL_INTERVAL_MS = 3000;
+const EVENT_TYPES: LiveEvent["type"][] = ["snapshot", "utterance", "alert", "score", "ended"];
+
+const statusLabels: Record<LiveStatus, string> = {
+  live: "Live",
+  ending: "Saving",
+  ended: "Ended",
+};
+
+function applyEvent(call: LiveCall | null, event: LiveEvent): LiveCall | null {
+  if (event.type === "snapshot") return event.snapshot;
+  if (!call) return call;
+  switch (event.type) {
+    case "utterance":
+      return event.final
+        ? { ...call, utterances: [...call.utterances, event.utterance], interim: null, elapsed: event.elapsed }
+        : { ...call, interim: event.utterance, elapsed: event.elapsed };
+    case "alert":
+      return { ...call, alerts: [...call.alerts, event.alert] };
+    case "score":
+      return { ...call, score: event.score };
+    case "ended":
+      return { ...call, status: "ended", interim: null, callId: event.callId, error: event.error };
+  }
+}
+
+export default function LivePage() {
+  const [sessions, setSessions] = useState<LiveSummary[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [call, setCall] = useState<LiveCall | null>(null);
+  const [speed, setSpeed] = useState("1");
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(() => {
+    fetch("/api/live")
+      .then(res => (res.ok ? res.json() : { sessions: [] }))
+      .then(data => setSessions(data.sessions))
+      .catch(() => setSessions([]));
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+    const timer = setInterval(loadSessions, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadSessions]);
+
+  // One stream per watched call. The first event is a full snapshot, so switching calls
+  // or reconnecting never shows stale lines
+  useEffect(() => {
+    if (!selected) return;
+    setCall(null);
+    const source = new EventSource(`/api/live/${selected}/events`);
+    const onEvent = (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as LiveEvent;
+      setCall(current => applyEvent(current, event));
+      if (event.type === "ended" || (event.type === "snapshot" && event.snapshot.status === "ended")) source.close();
+    };
+    EVENT_TYPES.forEach(type => source.addEventListener(type, onEvent));
+    return () => source.close();
+  }, [selected]);
+
+  const startSimulation = async () => {
+    setStarting(true);
+    setError(null);
+    const res = await fetch("/api/live", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ source: "simulation", speed: Number(speed), agent: "Simulated Agent" }),
+    });
+    const data = await res.json().catch(() => ({ error: "Could not start the simulation" }));
+    if (res.ok) {
+      setSelected(data.id);
+      loadSessions();
+    } else {
+      setError(data.error ?? "Could not start the simulation");
+    }
+    setStarting(false);
+  };
+
+  const endCall = async () => {
+    if (!call) return;
+    await fetch(`/api/live/${call.id}/end`, { method: "POST" });
+    loadSessions();
+  };
+
+  const utterances = call ? (call.interim ? [...call.utterances, call.interim] : call.utterances) : [];
+
+  return (
+    <main className={styles.container}>
+      <h1 className={styles.title}>Live Monitoring</h1>
+      <div className={styles.options}>
+        <label htmlFor="speed">Playback</label>
+        <select id="speed" value={speed} onChange={(e) => setSpeed(e.target.value)} className={styles.select}>
+          <option value="1">1×</option>
+          <option value="2">2×</option>
+          <option value="5">5×</option>
+        </select>
+        <button className={styles.startBtn} onClick={startSimulation} disabled={starting}>
+          {starting ? "Starting..." : "Start simulated call"}
+        </button>
+      </div>
+      {error && <p className={styles.error}>{error}</p>}
+      {sessions.length > 0 ? (
+        <ul className={styles.sessionList}>
+          {sessions.map((s) => (
+            <li key={s.id}>
+              <button
+                type="button"
+                className={s.id === selected ? `${styles.sessionItem} ${styles.sessionActive}` : styles.sessionItem}
+                onClick={() => setSelected(s.id)}
+              >
+                <span className={`${styles.status} ${styles[s.status]}`}>{statusLabels[s.status]}</span>
+                <span>{s.agent ?? "Unassigned"}</span>
+                <span>{formatTime(s.elapsed)}</span>
+                <span>{s.percentage}% {s.grade}</span>
+                <span className={s.alerts.length ? styles.alertCount : undefined}>
+                  {s.alerts.length} alert{s.alerts.length === 1 ? "" : "s"}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.empty}>No calls are being monitored.</p>
+      )}
+      {call && (
+        <div className={styles.callSection}>
+          <div className={styles.callHeader}>
+            <span>
+              {call.agent ?? "Unassigned"} · {formatTime(call.elapsed)} · {statusLabels[call.status]}
+            </span>
+            {call.status === "live" && (
+              <button className={styles.endBtn} onClick={endCall}>End call</button>
+            )}
+            {call.callId && <Link href={`/history/${call.callId}`}>View saved call</Link>}
+          </div>
+          {call.error && <p className={styles.error}>{call.error}</p>}
+          {call.alerts.length > 0 && (
+            <ul className={styles.alerts}>
+              {[...call.alerts].reverse().map((a) => (
+                <li key={a.id} className={a.severity === "critical" ? `${styles.alert} ${styles.critical}` : styles.alert}>
+                  <span className={styles.alertTime}>{formatTime(a.at)}</span>
+                  {a.message}
+                  {a.text && <div className={styles.alertText}>“{a.text}”</div>}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className={styles.panels}>
+            <div className={styles.transcriptPanel}>
+              <h2>Transcript</h2>
+              <TranscriptView utterances={utterances} currentTime={call.interim?.start} />
+            </div>
+            <div className={styles.scorePanel}>
+              <h2>{call.score.summary.percentage}% {call.score.summary.grade}</h2>
+              <table className={styles.scoreTable}>
+                <tbody>
+                  {call.score.parameters.map((p) => (
+                    <tr key={p.key}>
+                      <td>
+                        {p.name}
+                        {p.fatal && <span className={styles.fatalTag}>Fatal</span>}
+                      </td>
+                      <td>{call.score.scores[p.key] ?? 0}/{p.weight}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+import React, { useState } from "react";
+import styles from "./page.module.css";
+
+type Mode = "login" | "signup";
+
+// Only same-site paths, so the login page can't be used to bounce people elsewhere
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>("login");
+  const [organization, setOrganization] = useState("");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    const res = await fetch(mode === "login" ? "/api/auth/login" : "/api/orgs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(mode === "login" ? { email, password } : { organization, name, email, password }),
+    }).catch(() => null);
+    if (res?.ok) {
+      // A full load, so every component picks up the new session
+      window.location.href = nextPath();
+      return;
+    }
+    const data = await res?.json().catch(() => null);
+    setError(data?.error ?? "Could not reach the server");
+    setSubmitting(false);
+  };
+
+  return (
+    <main className={styles.container}>
+      <h1 className={styles.title}>{mode === "login" ? "Sign in" : "Create an organization"}</h1>
+      <form className={styles.form} onSubmit={submit}>
+        {mode === "signup" && (
+          <>
+            <input
+              value={organization}
+              onChange={(e) => setOrganization(e.target.value)}
+              placeholder="Organization name"
+              className={styles.input}
+              required
+            />
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name"
+              className={styles.input}
+              required
+            />
+          </>
+        )}
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          autoComplete="email"
+          className={styles.input}
+          required
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          className={styles.input}
+          required
+        />
+        <button type="submit" className={styles.submitBtn} disabled={submitting}>
+          {mode === "login" ? "Sign in" : "Create organization"}
+        </button>
+      </form>
+      {error && <p className={styles.error}>{error}</p>}
+      <button type="button" className={styles.switchBtn} onClick={() => setMode(mode === "login" ? "signup" : "login")}>
+        {mode === "login" ? "New here? Create an organization" : "Already have an account? Sign in"}
+      </button>
+    </main>
+  );
+}
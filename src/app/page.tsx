@@ -1,36 +1,118 @@
 "use client";
 import React, { useState, useRef, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import styles from "./page.module.css";
+import CallReport, { type FeedbackResponse } from "./components/CallReport";
+import ExportLinks from "./components/ExportLinks";
+import TranscriptView, { redactionSummary, type TranscriptUtterance } from "./components/TranscriptView";
+import { useSession } from "./components/useSession";
 
-interface Scores {
-  [key: string]: number;
+// The analyze route saves every call to history and returns its id, along with the
+// transcript it scored
+type AnalyzeResponse = FeedbackResponse & {
+  callId: string;
+  transcript: { provider: string; utterances: TranscriptUtterance[] };
+  redactions: Record<string, number>;
+};
+
+// Error body of the analyze route; NETWORK_ERROR is the page's own, for when the
+// request never got a response
+interface AnalyzeError {
+  error: string;
+  code: string;
+  retryable: boolean;
+}
+
+const ERROR_TITLES: Record<string, string> = {
+  UNAUTHENTICATED: "Signed out",
+  FORBIDDEN: "Not allowed",
+  UNSUPPORTED_FORMAT: "Unsupported file",
+  FILE_TOO_LARGE: "File too large",
+  AUDIO_TOO_LONG: "Recording too long",
+  EMPTY_TRANSCRIPT: "No speech detected",
+  INVALID_TRANSCRIPT: "Unreadable transcript",
+  TRANSCRIPTION_TIMEOUT: "Transcription timed out",
+  TRANSCRIPTION_FAILED: "Transcription failed",
+  PROVIDER_NOT_CONFIGURED: "Transcription is not set up",
+  SCORECARD_NOT_FOUND: "Scorecard not found",
+  NETWORK_ERROR: "Could not reach the server",
+};
+
+// Organization defaults the upload options start from
+interface OrgSettings {
+  scorecardId?: string;
+  scoringMode?: "keyword" | "llm";
+  language?: string;
+  piiView?: "masked" | "clear";
+}
+
+interface ScorecardSummary {
+  id: string;
+  name: string;
+  version: number;
+  versions: number[];
 }
 
-interface FeedbackResponse {
-  scores: Scores;
-  overallFeedback: string;
-  observation: string;
+// Where the transcript came back masked the note says what was masked; the saved call
+// and exports are masked either way
+function redactionNote(redactions: Record<string, number>, view: "masked" | "clear"): string {
+  const list = redactionSummary(redactions);
+  if (!list) return "No personal details were detected.";
+  return view === "clear"
+    ? `Showing clear text. The saved call and exports mask ${list}.`
+    : `Masked ${list}. Saved calls and exports are always masked.`;
 }
 
-const parameters = [
-  { key: "greeting", name: "Greeting", weight: 5, desc: "Call opening within 5 seconds", inputType: "PASS_FAIL" },
-  { key: "collectionUrgency", name: "Collection Urgency", weight: 15, desc: "Create urgency, cross-questioning", inputType: "SCORE" },
-  { key: "rebuttalCustomerHandling", name: "Rebuttal Handling", weight: 15, desc: "Address penalties, objections", inputType: "SCORE" },
-  { key: "callEtiquette", name: "Call Etiquette", weight: 15, desc: "Tone, empathy, clear speech", inputType: "SCORE" },
-  { key: "callDisclaimer", name: "Call Disclaimer", weight: 5, desc: "Take permission before ending", inputType: "PASS_FAIL" },
-  { key: "correctDisposition", name: "Correct Disposition", weight: 10, desc: "Use correct category with remark", inputType: "PASS_FAIL" },
-  { key: "callClosing", name: "Call Closing", weight: 5, desc: "Thank the customer properly", inputType: "PASS_FAIL" },
-  { key: "fatalIdentification", name: "Identification", weight: 5, desc: "Missing agent/customer info", inputType: "PASS_FAIL" },
-  { key: "fatalTapeDiscloser", name: "Tape Disclosure", weight: 10, desc: "Inform customer about recording", inputType: "PASS_FAIL" },
-  { key: "fatalToneLanguage", name: "Tone & Language", weight: 15, desc: "No abusive or threatening speech", inputType: "PASS_FAIL" },
-];
+// A recording is transcribed first; a transcript from the dialer or subtitles is scored as is
+type UploadMode = "audio" | "transcript";
 
 export default function Home() {
-  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<UploadMode>("audio");
+  const [upload, setUpload] = useState<File | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [feedback, setFeedback] = useState<FeedbackResponse | null>(null);
+  const [feedback, setFeedback] = useState<AnalyzeResponse | null>(null);
+  const [error, setError] = useState<AnalyzeError | null>(null);
+  const [scorecards, setScorecards] = useState<ScorecardSummary[]>([]);
+  const [scorecardId, setScorecardId] = useState("default");
+  const [scoringMode, setScoringMode] = useState<"keyword" | "llm">("keyword");
+  const [language, setLanguage] = useState("auto");
+  const [agent, setAgent] = useState("");
+  const [team, setTeam] = useState("");
+  const [disposition, setDisposition] = useState("");
+  const [piiView, setPiiView] = useState<"masked" | "clear">("masked");
+  // The view the shown result was requested with, which the picker may since have changed
+  const [resultView, setResultView] = useState<"masked" | "clear">("masked");
+  const [currentTime, setCurrentTime] = useState(0);
   const audioRef = useRef<HTMLAudioElement>(null);
+  const router = useRouter();
+  const session = useSession();
+
+  // Agents can't upload; their landing page is their call history
+  useEffect(() => {
+    if (session?.role === "agent") router.replace("/history");
+  }, [session, router]);
+
+  useEffect(() => {
+    fetch("/api/orgs/current")
+      .then(res => (res.ok ? res.json() : null))
+      .then((org: { settings: OrgSettings } | null) => {
+        const settings = org?.settings ?? {};
+        if (settings.scorecardId) setScorecardId(settings.scorecardId);
+        if (settings.scoringMode) setScoringMode(settings.scoringMode);
+        if (settings.language) setLanguage(settings.language);
+        if (settings.piiView) setPiiView(settings.piiView);
+      })
+      .catch(() => null);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/scorecards")
+      .then(res => (res.ok ? res.json() : { scorecards: [] }))
+      .then(data => setScorecards(data.scorecards))
+      .catch(() => setScorecards([]));
+  }, []);
 
   // Cleanup audio URL when component unmounts or file changes
   useEffect(() => {
@@ -41,52 +123,77 @@ export default function Home() {
     };
   }, [audioUrl]);
 
+  // The server checks the format, so a wrong file gets a message rather than being ignored.
+  // Only recordings get a player
+  const selectFile = (file: File | null, uploadMode = mode) => {
+    // Cleanup previous URL if exists
+    if (audioUrl) {
+      URL.revokeObjectURL(audioUrl);
+    }
+    setUpload(file);
+    setAudioUrl(file && uploadMode === "audio" ? URL.createObjectURL(file) : null);
+    setFeedback(null);
+    setError(null);
+    setCurrentTime(0);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && (file.type === "audio/mp3" || file.type === "audio/wav" || file.type === "audio/mpeg")) {
-      // Cleanup previous URL if exists
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl);
-      }
-      setAudioFile(file);
-      setAudioUrl(URL.createObjectURL(file));
-      setFeedback(null);
-    }
+    if (file) selectFile(file);
   };
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     const file = e.dataTransfer.files[0];
-    if (file && (file.type === "audio/mp3" || file.type === "audio/wav" || file.type === "audio/mpeg")) {
-      // Cleanup previous URL if exists
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl);
-      }
-      setAudioFile(file);
-      setAudioUrl(URL.createObjectURL(file));
-      setFeedback(null);
-    }
+    if (file) selectFile(file);
+  };
+
+  const handleModeChange = (next: UploadMode) => {
+    setMode(next);
+    selectFile(null, next);
   };
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
   };
 
+  const seekTo = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    audioRef.current.play();
+  };
+
   const handleProcess = async () => {
-    if (!audioFile) return;
+    if (!upload) return;
     setLoading(true);
     setFeedback(null);
+    setError(null);
     const formData = new FormData();
-    formData.append("file", audioFile);
-    const res = await fetch("/api/analyze-call", {
-      method: "POST",
-      body: formData,
-    });
-    if (res.ok) {
-      const data = await res.json();
+    formData.append("file", upload);
+    formData.append("scorecardId", scorecardId);
+    formData.append("scoringMode", scoringMode);
+    formData.append("language", language);
+    if (agent.trim()) formData.append("agent", agent.trim());
+    if (team.trim()) formData.append("team", team.trim());
+    if (disposition.trim()) formData.append("disposition", disposition.trim());
+    formData.append("pii", piiView);
+    setResultView(piiView);
+    let res: Response;
+    try {
+      res = await fetch(mode === "audio" ? "/api/analyze-call" : "/api/analyze-transcript", {
+        method: "POST",
+        body: formData,
+      });
+    } catch {
+      setError({ error: "Check your connection and try again.", code: "NETWORK_ERROR", retryable: true });
+      setLoading(false);
+      return;
+    }
+    const data = await res.json().catch(() => null);
+    if (res.ok && data) {
       setFeedback(data);
     } else {
-      setFeedback(null);
+      setError(data?.code ? data : { error: `The server returned ${res.status}`, code: "INTERNAL_ERROR", retryable: true });
     }
     setLoading(false);
   };
@@ -100,58 +207,149 @@ export default function Home() {
         onDragOver={handleDragOver}
       >
         <input
+          key={mode}
           type="file"
-          accept=".mp3,.wav,audio/mp3,audio/wav,audio/mpeg"
+          accept={mode === "audio" ? "audio/*,.mp3,.wav,.m4a,.aac,.ogg,.opus,.flac,.webm" : ".json,.srt,.vtt,.txt,text/plain"}
           onChange={handleFileChange}
           className={styles.fileInput}
         />
-        <span>Drag & Drop or Click to Upload .mp3/.wav</span>
+        <span>
+          {mode === "transcript" && upload
+            ? upload.name
+            : mode === "audio"
+              ? "Drag & Drop or Click to Upload a call recording (.mp3, .wav, .m4a, ...)"
+              : "Drag & Drop or Click to Upload a transcript (Deepgram .json, .srt, .vtt, or .txt with \"Agent:\" / \"Customer:\" lines)"}
+        </span>
       </div>
       {audioUrl && (
         <div className={styles.audioPlayerWrapper}>
-          <audio ref={audioRef} controls src={audioUrl} className={styles.audioPlayer} />
+          <audio
+            ref={audioRef}
+            controls
+            src={audioUrl}
+            className={styles.audioPlayer}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
         </div>
       )}
+      <div className={styles.scorecardPicker}>
+        <label htmlFor="mode">Upload</label>
+        <select
+          id="mode"
+          value={mode}
+          onChange={(e) => handleModeChange(e.target.value as UploadMode)}
+          className={styles.select}
+        >
+          <option value="audio">Recording</option>
+          <option value="transcript">Transcript</option>
+        </select>
+        {scorecards.length > 0 && (
+          <>
+            <label htmlFor="scorecard">Scorecard</label>
+            <select
+              id="scorecard"
+              value={scorecardId}
+              onChange={(e) => setScorecardId(e.target.value)}
+              className={styles.select}
+            >
+              {scorecards.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name} (v{s.version})
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        <label htmlFor="scoringMode">Scoring</label>
+        <select
+          id="scoringMode"
+          value={scoringMode}
+          onChange={(e) => setScoringMode(e.target.value as "keyword" | "llm")}
+          className={styles.select}
+        >
+          <option value="keyword">Keyword rules</option>
+          <option value="llm">LLM rubric</option>
+        </select>
+        <label htmlFor="language">Language</label>
+        <select
+          id="language"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          className={styles.select}
+        >
+          <option value="auto">Auto-detect</option>
+          <option value="hi">Hindi</option>
+          <option value="hinglish">Hinglish</option>
+          <option value="hi-Latn">Romanized Hindi</option>
+          <option value="en">English</option>
+        </select>
+        <label htmlFor="agent">Agent</label>
+        <input
+          id="agent"
+          value={agent}
+          onChange={(e) => setAgent(e.target.value)}
+          placeholder="Name or ID"
+          className={styles.select}
+        />
+        <label htmlFor="team">Team</label>
+        <input
+          id="team"
+          value={team}
+          onChange={(e) => setTeam(e.target.value)}
+          className={styles.select}
+        />
+        <label htmlFor="disposition">Disposition</label>
+        <input
+          id="disposition"
+          value={disposition}
+          onChange={(e) => setDisposition(e.target.value)}
+          placeholder="Code the agent logged"
+          className={styles.select}
+        />
+        <label htmlFor="piiView">Transcript</label>
+        <select
+          id="piiView"
+          value={piiView}
+          onChange={(e) => setPiiView(e.target.value as "masked" | "clear")}
+          className={styles.select}
+        >
+          <option value="masked">Mask PII</option>
+          <option value="clear">Clear text</option>
+        </select>
+      </div>
       <button
         className={styles.processBtn}
         onClick={handleProcess}
-        disabled={!audioFile || loading}
+        disabled={!upload || loading}
       >
         {loading ? "Processing..." : "Process"}
       </button>
+      {error && (
+        <div className={styles.errorBox} role="alert">
+          <strong>{ERROR_TITLES[error.code] ?? "Analysis failed"}</strong>
+          <p>{error.error}</p>
+          {!error.retryable && <p className={styles.errorHint}>Retrying with the same file and settings is unlikely to help.</p>}
+          <button type="button" className={styles.retryBtn} onClick={handleProcess} disabled={loading}>
+            Try again
+          </button>
+        </div>
+      )}
       {feedback && (
         <div className={styles.feedbackSection}>
-          <h2>Scores</h2>
-          <table className={styles.scoresTable}>
-            <thead>
-              <tr>
-                <th>Parameter</th>
-                <th>Score</th>
-                <th>Max</th>
-                <th>Description</th>
-              </tr>
-            </thead>
-            <tbody>
-              {parameters.map((param) => (
-                <tr key={param.key}>
-                  <td>{param.name}</td>
-                  <td>{feedback.scores[param.key]}</td>
-                  <td>{param.weight}</td>
-                  <td>{param.desc}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          <div className={styles.textFields}>
-            <div>
-              <label>Overall Feedback</label>
-              <textarea value={feedback.overallFeedback} readOnly className={styles.textarea} />
-            </div>
-            <div>
-              <label>Observation</label>
-              <textarea value={feedback.observation} readOnly className={styles.textarea} />
-            </div>
-          </div>
+          <CallReport feedback={feedback} onSeek={audioUrl ? seekTo : undefined} />
+          <p className={styles.savedNote}>
+            Saved to <Link href={`/history/${feedback.callId}`}>call history</Link>
+            {" · "}
+            <ExportLinks url={`/api/calls/${feedback.callId}/export`} />
+          </p>
+          <h2>Transcript</h2>
+          <p className={styles.savedNote}>{redactionNote(feedback.redactions, resultView)}</p>
+          <TranscriptView
+            utterances={feedback.transcript.utterances}
+            currentTime={audioUrl ? currentTime : undefined}
+            onSeek={audioUrl ? seekTo : undefined}
+          />
         </div>
       )}
       {feedback && (
@@ -161,6 +359,7 @@ export default function Home() {
             <pre className={styles.jsonBox}>
               {JSON.stringify({
                 scores: feedback.scores,
+                summary: feedback.summary,
                 overallFeedback: feedback.overallFeedback,
                 observation: feedback.observation
               }, null, 2)}
@@ -170,6 +369,7 @@ export default function Home() {
               onClick={() => {
                 navigator.clipboard.writeText(JSON.stringify({
                   scores: feedback.scores,
+                  summary: feedback.summary,
                   overallFeedback: feedback.overallFeedback,
                   observation: feedback.observation
                 }, null, 2));
@@ -0,0 +1,252 @@
+import type { ScoringMode } from "./analyzers";
+import { validateAudio } from "./audio";
+import { saveCall, type CallOwner, type CallRecord } from "./calls";
+import { AnalysisError } from "./errors";
+import { isLanguageOption, providerLanguage, type LanguageOption } from "./language";
+import type { OrgSettings } from "./orgs";
+import type { DispositionCode } from "./outcome";
+import { analyzeTranscript, isScoringMode, type AnalysisResult } from "./pipeline";
+import { isPiiView, redactText, redactTranscript, type PiiCounts, type PiiView } from "./redaction";
+import { DEFAULT_SCORECARD_ID, getScorecard, type Scorecard } from "./scorecards";
+import { speakerConfigFrom, wavChannelCount, type SpeakerConfig } from "./speakers";
+import {
+  getTranscriptionProvider,
+  hashAudio,
+  isProviderName,
+  parseTranscriptFile,
+  readCachedTranscript,
+  transcribeWithRetry,
+  transcriptCacheKey,
+  writeCachedTranscript,
+  type ProviderName,
+  type TranscriptFormat,
+  type TranscriptionRequest,
+} from "./transcription";
+import type { NormalizedTranscript } from "./types";
+import { notifyAnalysis } from "./webhooks";
+
+// Per-call settings shared by the single upload route and batch jobs
+export interface AnalysisRequestOptions {
+  scorecardId: string;
+  scorecardVersion?: number;
+  provider?: ProviderName;
+  scoringMode: ScoringMode;
+  language: LanguageOption;
+  speakerConfig: SpeakerConfig;
+  // Forces multichannel transcription; WAV files are detected automatically
+  multichannel: boolean;
+  // Stored with the call for history search; campaign defaults to the scorecard's
+  agent?: string;
+  team?: string;
+  campaign?: string;
+  // The disposition code the agent logged, checked against the one the call suggests
+  disposition?: string;
+  dispositionCodes?: DispositionCode[];
+  // Whether the returned transcript is masked; what is stored is always masked
+  piiView: PiiView;
+  // Transcribe again even when this audio's transcript is cached
+  refreshTranscript?: boolean;
+}
+
+// Every analyzed upload is saved to call history; callId points at that record.
+// transcriptCache says whether an audio upload's transcript came from the cache
+export type SavedAnalysis = AnalysisResult & { callId: string; redactions: PiiCounts; transcriptCache?: "hit" | "miss" };
+
+export interface AudioInput {
+  audio: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface TranscriptInput {
+  content: string;
+  fileName: string;
+}
+
+type FormLike = { get(name: string): unknown };
+
+// Fields the form leaves out fall back to the organization's settings, then the environment
+export function parseAnalysisOptions(
+  form: FormLike,
+  defaults: OrgSettings = {}
+): { options: AnalysisRequestOptions } | { error: string } {
+  const field = (name: string) => (form.get(name) as string | null) || undefined;
+
+  const provider = field("provider") || defaults.provider;
+  if (provider && !isProviderName(provider)) {
+    return { error: `Unknown transcription provider: ${provider}` };
+  }
+  const scoringMode = field("scoringMode") || defaults.scoringMode || process.env.SCORING_MODE || "keyword";
+  if (!isScoringMode(scoringMode)) {
+    return { error: `Unknown scoring mode: ${scoringMode}` };
+  }
+  const language = field("language") || defaults.language || process.env.CALL_LANGUAGE || "auto";
+  if (!isLanguageOption(language)) {
+    return { error: `Unknown language: ${language}` };
+  }
+  const piiView = field("pii") || defaults.piiView || process.env.PII_VIEW || "masked";
+  if (!isPiiView(piiView)) {
+    return { error: `Unknown PII view: ${piiView}` };
+  }
+  const versionField = field("scorecardVersion");
+  const scorecardVersion = versionField ? Number(versionField) : undefined;
+  if (scorecardVersion !== undefined && !(Number.isInteger(scorecardVersion) && scorecardVersion > 0)) {
+    return { error: `Invalid scorecard version: ${versionField}` };
+  }
+
+  return {
+    options: {
+      scorecardId: field("scorecardId") || defaults.scorecardId || DEFAULT_SCORECARD_ID,
+      scorecardVersion,
+      provider: provider as ProviderName | undefined,
+      scoringMode,
+      language,
+      speakerConfig: speakerConfigFrom(form),
+      multichannel: field("multichannel") === "true",
+      agent: field("agent"),
+      team: field("team"),
+      campaign: field("campaign"),
+      disposition: field("disposition"),
+      dispositionCodes: defaults.dispositionCodes,
+      piiView,
+      refreshTranscript: field("refreshTranscript") === "true",
+    },
+  };
+}
+
+// The call is saved to the owner's organization, scored with one of its scorecards
+export async function analyzeAudio(input: AudioInput, options: AnalysisRequestOptions, owner: CallOwner): Promise<SavedAnalysis> {
+  const scorecard = await getScorecard(owner.orgId, options.scorecardId, options.scorecardVersion);
+  if (!scorecard) {
+    throw new AnalysisError("SCORECARD_NOT_FOUND", `Scorecard not found: ${options.scorecardId}`);
+  }
+  const audio = validateAudio(input.audio);
+
+  const provider = getTranscriptionProvider(options.provider);
+  // Stereo dialer recordings carry agent and customer on separate channels
+  const multichannel = options.multichannel || (wavChannelCount(input.audio) ?? 1) > 1;
+
+  const request: TranscriptionRequest = {
+    audio: input.audio,
+    // Browsers often send a generic type; the provider needs the real one
+    mimeType: audio.mimeType,
+    fileName: input.fileName,
+    multichannel,
+    language: providerLanguage(options.language),
+  };
+  const cacheKey = transcriptCacheKey(owner.orgId, hashAudio(input.audio), provider, request);
+  const details = { fileName: redactText(input.fileName).text, scorecard, options, owner };
+
+  // A cached transcript is masked on every read like a fresh one, so both PII views reuse it
+  const cached = options.refreshTranscript ? null : await readCachedTranscript(owner.orgId, cacheKey, input.audio);
+  const transcript = cached ?? (await transcribeWithRetry(provider, request));
+
+  if (!transcript.transcript.trim()) {
+    throw new AnalysisError("EMPTY_TRANSCRIPT", "No speech was detected in the recording");
+  }
+
+  // Analyzers, logs and storage only ever see the masked transcript
+  const { transcript: masked, counts: redactions } = redactTranscript(transcript);
+  if (!cached) {
+    await writeCachedTranscript(
+      owner.orgId,
+      cacheKey,
+      input.audio,
+      { provider: provider.name, duration: audio.duration ?? masked.duration ?? null },
+      transcript
+    );
+  }
+  const clearText = transcript.utterances.map(u => u.transcript);
+  const { result, call } = await scoreAndSave(masked, { ...details, redactions, clearText });
+  return {
+    ...withView(result, transcript, options.piiView),
+    callId: call.id,
+    redactions,
+    transcriptCache: cached ? "hit" : "miss",
+  };
+}
+
+// An existing transcript (Deepgram JSON, SRT, WebVTT or speaker-tagged text) is scored and
+// saved like an upload, without calling a transcription provider. A speaker labelled as
+// the agent in the file is taken as the agent unless agentSpeaker was sent
+export async function analyzeTranscriptFile(
+  input: TranscriptInput,
+  options: AnalysisRequestOptions,
+  owner: CallOwner
+): Promise<SavedAnalysis & { format: TranscriptFormat }> {
+  const scorecard = await getScorecard(owner.orgId, options.scorecardId, options.scorecardVersion);
+  if (!scorecard) {
+    throw new AnalysisError("SCORECARD_NOT_FOUND", `Scorecard not found: ${options.scorecardId}`);
+  }
+  const { format, transcript, agentSpeaker } = parseTranscriptFile(input.content);
+  if (!transcript.transcript.trim()) {
+    throw new AnalysisError("EMPTY_TRANSCRIPT", "The transcript has no text");
+  }
+  const speakerConfig = { ...options.speakerConfig, agentSpeaker: options.speakerConfig.agentSpeaker ?? agentSpeaker };
+
+  const { transcript: masked, counts: redactions } = redactTranscript(transcript);
+  const { result, call } = await scoreAndSave(masked, {
+    fileName: redactText(input.fileName).text,
+    scorecard,
+    options: { ...options, speakerConfig },
+    owner,
+    redactions,
+    clearText: transcript.utterances.map(u => u.transcript),
+  });
+  return { ...withView(result, transcript, options.piiView), callId: call.id, redactions, format };
+}
+
+// Redaction keeps utterances one for one, so for the clear view roles carry over by index
+function withView(result: AnalysisResult, clear: NormalizedTranscript, piiView: PiiView): AnalysisResult {
+  if (piiView !== "clear") return result;
+  const attributed = result.transcript;
+  const utterances = attributed.utterances.map((u, i) => ({ ...u, transcript: clear.utterances[i].transcript }));
+  return { ...result, transcript: { ...attributed, transcript: clear.transcript, utterances } };
+}
+
+export interface SaveDetails {
+  // Already masked
+  fileName: string;
+  scorecard: Scorecard;
+  options: AnalysisRequestOptions;
+  owner: CallOwner;
+  redactions: PiiCounts;
+  // The unmasked text of each utterance, for the outcome's promised dates and amounts.
+  // Never stored
+  clearText?: string[];
+}
+
+// Scores a masked transcript, saves it to the owner's call history and notifies webhooks.
+// Uploads and live calls both finish here
+export async function scoreAndSave(
+  masked: NormalizedTranscript,
+  details: SaveDetails
+): Promise<{ result: AnalysisResult; call: CallRecord }> {
+  const { scorecard, options } = details;
+  const result = await analyzeTranscript(masked, {
+    scorecard,
+    speakerConfig: options.speakerConfig,
+    language: options.language,
+    scoringMode: options.scoringMode,
+    dispositionCodes: options.dispositionCodes,
+    loggedDisposition: options.disposition,
+    clearText: details.clearText,
+  });
+
+  // The transcript is stored once, beside the result rather than inside it
+  const { transcript: attributed, ...stored } = result;
+  const call = await saveCall({
+    ...details.owner,
+    fileName: details.fileName,
+    agent: options.agent,
+    team: options.team,
+    campaign: options.campaign ?? scorecard.campaign,
+    disposition: options.disposition,
+    transcript: attributed,
+    result: stored,
+    redactions: details.redactions,
+  });
+  // Not awaited: receivers get retried in the background and never hold up the response
+  notifyAnalysis(call).catch(error => console.error("Webhook dispatch error:", error));
+  return { result, call };
+}
@@ -0,0 +1,268 @@
+import type { Intent, Sentiment, Topic, Utterance } from "./types";
+import { matchKeywords, type Lexicon } from "./language";
+import type { ConversationDynamics } from "./dynamics";
+import type { CallOutcome } from "./outcome";
+import type { ScorecardParameter } from "./scorecards";
+import { builtInRules, evaluateRule } from "./rules";
+import { agentSentiment, agentUtterances } from "./speakers";
+
+// A single piece of support for a score: the utterance that matched and why
+export interface Evidence {
+  text: string;
+  start: number;
+  end: number;
+  keywords: string[];
+  rule: string;
+}
+
+export interface AnalyzerResult {
+  // Fraction (0-1) of the parameter's weight that was earned
+  score: number;
+  reason: string;
+  evidence: Evidence[];
+  // Sentence for the call's observation, when the result is worth calling out
+  observation?: string;
+}
+
+export type ScoringMode = "keyword" | "llm";
+
+export interface ParameterDetail {
+  reason: string;
+  evidence: Evidence[];
+  // Which scorer produced the final score for this parameter
+  mode: ScoringMode;
+}
+
+function evidenceFrom(utterance: Utterance, keywords: string[], rule: string): Evidence {
+  return { text: utterance.transcript, start: utterance.start, end: utterance.end, keywords, rule };
+}
+
+// Analyzers for the built-in parameters that rules can't express; the rest are rules in
+// the built-in scorecard
+export function analyzeRebuttal(utterances: Utterance[], lexicon: Lexicon): AnalyzerResult {
+  let objectionCount = 0;
+  let rebuttalCount = 0;
+  let lastObjectionIndex = -1;
+  const evidence: Evidence[] = [];
+  const objectionTopics = new Set<string>();
+
+  utterances.forEach((utterance, index) => {
+    // Objections are what the customer says; rebuttals are the agent's replies
+    const objections = utterance.role !== "agent" ? matchKeywords(utterance.transcript, lexicon.objection) : [];
+    const rebuttals = utterance.role !== "customer" ? matchKeywords(utterance.transcript, lexicon.rebuttal) : [];
+
+    if (objections.length) {
+      objectionCount++;
+      lastObjectionIndex = index;
+      evidence.push(evidenceFrom(utterance, objections, "customer objection"));
+      for (const [topic, keywords] of Object.entries(lexicon.objectionTopics)) {
+        if (matchKeywords(utterance.transcript, keywords).length) objectionTopics.add(topic);
+      }
+    }
+    if (rebuttals.length && index > lastObjectionIndex) {
+      rebuttalCount++;
+      evidence.push(evidenceFrom(utterance, rebuttals, "agent rebuttal after objection"));
+    }
+  });
+
+  if (objectionCount === 0) {
+    return { score: 0, reason: "No customer objections to handle", evidence };
+  }
+  const score = Math.min(15, (objectionCount * 2) + (rebuttalCount * 3));
+  const points = Math.min(15, Math.max(0, score - (objectionCount - rebuttalCount) * 2));
+  const topics = Array.from(objectionTopics);
+  const raised = topics.length ? `Customer raised objections about ${topics.join(' and ')}` : "Customer raised objections";
+  const handled = topics.length
+    ? rebuttalCount ? "Agent managed well" : "Agent could have handled better"
+    : rebuttalCount ? "which were handled professionally" : "that could have been handled better";
+  return {
+    score: points / 15,
+    reason: `${objectionCount} objection(s), ${rebuttalCount} rebuttal(s)`,
+    evidence,
+    observation: topics.length ? `${raised}. ${handled}` : `${raised} ${handled}`,
+  };
+}
+
+// Deductions from the sentiment score for how the agent handled the conversation
+const ETIQUETTE_DEDUCTIONS = {
+  interruption: 2,
+  maxInterruptions: 4,
+  deadAir: 1,
+  maxDeadAir: 3,
+  unannouncedHold: 2,
+  // Agent share of talk time above which the customer barely got a word in
+  dominantTalkShare: 80,
+  dominance: 2,
+  monologueSeconds: 60,
+  monologue: 1,
+};
+
+export function analyzeEtiquette(sentiment: Sentiment, dynamics?: ConversationDynamics): AnalyzerResult {
+  const baseScore = 8; // Reduced base score
+  const sentimentScore = sentiment.sentiment_score > 0.3 ? 7 :
+                        sentiment.sentiment_score > 0 ? 3 :
+                        sentiment.sentiment_score > -0.3 ? -3 : -7;
+  const reasons = [`Sentiment ${sentiment.sentiment} (${sentiment.sentiment_score.toFixed(2)}) adjusts the base score by ${sentimentScore}`];
+  const evidence: Evidence[] = [];
+  let deducted = 0;
+  if (dynamics) {
+    const d = ETIQUETTE_DEDUCTIONS;
+    const interruptions = dynamics.overtalk.filter(o => o.by === "agent");
+    const holds = dynamics.holds.filter(h => !h.announced);
+    const deductions: [number, string][] = [
+      [Math.min(d.maxInterruptions, interruptions.length * d.interruption), `${interruptions.length} interruption(s) of the customer`],
+      [Math.min(d.maxDeadAir, dynamics.deadAir.length * d.deadAir), `${dynamics.deadAir.length} dead air gap(s)`],
+      [holds.length * d.unannouncedHold, `${holds.length} hold(s) without asking the customer`],
+      [(dynamics.agent.talkShare ?? 0) > d.dominantTalkShare ? d.dominance : 0, `agent took ${dynamics.agent.talkShare}% of the talk time`],
+      [dynamics.agent.longestMonologue > d.monologueSeconds ? d.monologue : 0, `a ${dynamics.agent.longestMonologue}s agent monologue`],
+    ];
+    for (const [points, why] of deductions) {
+      if (!points) continue;
+      deducted += points;
+      reasons.push(`-${points} for ${why}`);
+    }
+    evidence.push(
+      ...interruptions.map(o => ({ text: "Agent talked over the customer", start: o.start, end: o.end, keywords: [], rule: "interruption" })),
+      ...dynamics.deadAir.map(g => ({ text: `${g.seconds}s of silence`, start: g.start, end: g.end, keywords: [], rule: "dead air" })),
+      ...holds.map(h => ({ text: `${h.seconds}s hold without asking the customer`, start: h.start, end: h.end, keywords: [], rule: "unannounced hold" }))
+    );
+  }
+  return {
+    score: Math.max(0, Math.min(15, baseScore + sentimentScore - deducted)) / 15,
+    reason: reasons.join("; "),
+    evidence,
+  };
+}
+
+// With the agent's logged disposition, the check is whether it matches the one the call
+// outcome suggests; without it, whether a category and reason were stated on the call
+export function analyzeDisposition(
+  utterances: Utterance[],
+  intents: Intent[],
+  lexicon: Lexicon,
+  outcome?: CallOutcome,
+  logged?: string
+): AnalyzerResult {
+  const suggested = outcome?.suggestedDisposition;
+  if (logged && suggested) {
+    if (logged.trim().toUpperCase() === suggested.code.toUpperCase()) {
+      return { score: 1, reason: `Logged disposition ${suggested.code} matches the call outcome`, evidence: outcome.evidence };
+    }
+    return {
+      score: 0,
+      reason: `Logged disposition ${logged} doesn't match the call outcome, which suggests ${suggested.code} (${suggested.label})`,
+      evidence: outcome.evidence,
+      observation: `Disposition was logged as ${logged} but the call suggests ${suggested.label}`,
+    };
+  }
+  const dispositionKeywords = lexicon.disposition;
+  const reasonKeywords = lexicon.dispositionReason;
+  const keywordMatches = utterances.filter(utterance => matchKeywords(utterance.transcript, dispositionKeywords).length > 0);
+  const dispositionIntents = intents.filter(intent =>
+    intent.intent.toLowerCase().includes('disposition') ||
+    intent.intent.toLowerCase().includes('category')
+  );
+  const specific = keywordMatches.find(utterance => matchKeywords(utterance.transcript, reasonKeywords).length > 0);
+  if (specific) {
+    return {
+      score: 1,
+      reason: "Disposition stated with a reason",
+      evidence: [evidenceFrom(
+        specific,
+        matchKeywords(specific.transcript, [...dispositionKeywords, ...reasonKeywords]),
+        "disposition keyword with reason"
+      )],
+    };
+  }
+  if (keywordMatches.length || dispositionIntents.length) {
+    return {
+      score: 0.5,
+      reason: dispositionIntents.length && !keywordMatches.length
+        ? `Disposition intent detected: ${dispositionIntents.map(i => i.intent).join(", ")}`
+        : "Disposition mentioned without a reason",
+      evidence: keywordMatches.map(u => evidenceFrom(u, matchKeywords(u.transcript, dispositionKeywords), "disposition keyword")),
+    };
+  }
+  return { score: 0, reason: "No disposition category or reason mentioned", evidence: [] };
+}
+
+export function analyzeToneLanguage(sentiment: Sentiment, utterances: Utterance[], lexicon: Lexicon): AnalyzerResult {
+  const evidence = utterances
+    .map(utterance => ({ utterance, matched: matchKeywords(utterance.transcript, lexicon.abusive) }))
+    .filter(({ matched }) => matched.length > 0)
+    .map(({ utterance, matched }) => evidenceFrom(utterance, matched, "abusive or threatening language"));
+
+  if (evidence.length) {
+    return { score: 0, reason: "Abusive or threatening language used", evidence };
+  }
+  const tone = `Sentiment ${sentiment.sentiment} (${sentiment.sentiment_score.toFixed(2)})`;
+  if (sentiment.sentiment_score < -0.3) {
+    return { score: 0, reason: `${tone} is strongly negative`, evidence };
+  } else if (sentiment.sentiment_score < -0.1) {
+    return { score: 1 / 3, reason: `${tone} is negative`, evidence };
+  } else if (sentiment.sentiment_score < 0.1) {
+    return { score: 2 / 3, reason: `${tone} is neutral`, evidence };
+  }
+  return { score: 1, reason: `${tone} is positive`, evidence };
+}
+
+export interface AnalysisContext {
+  utterances: Utterance[];
+  sentiment: Sentiment;
+  topics: Topic[];
+  intents: Intent[];
+  // Phrase lists for the call's language(s)
+  lexicon: Lexicon;
+  // Talk time, overtalk and silence measured from the utterance timings
+  dynamics?: ConversationDynamics;
+  // Extracted call outcome and the disposition the agent logged, when known
+  outcome?: CallOutcome;
+  loggedDisposition?: string;
+}
+
+// Analyzers return the fraction of a parameter's weight that was earned,
+// so the same detection logic works for any weight a scorecard assigns
+export type Analyzer = (ctx: AnalysisContext) => AnalyzerResult;
+
+export const analyzers: Record<string, Analyzer> = {
+  rebuttalCustomerHandling: ctx => analyzeRebuttal(ctx.utterances, ctx.lexicon),
+  callEtiquette: ctx => analyzeEtiquette(agentSentiment(ctx.utterances, ctx.sentiment), ctx.dynamics),
+  correctDisposition: ctx => analyzeDisposition(ctx.utterances, ctx.intents, ctx.lexicon, ctx.outcome, ctx.loggedDisposition),
+  fatalToneLanguage: ctx => analyzeToneLanguage(
+    agentSentiment(ctx.utterances, ctx.sentiment),
+    agentUtterances(ctx.utterances),
+    ctx.lexicon
+  ),
+};
+
+// A parameter's own rule wins, then a code analyzer, then the built-in scorecard's rule
+// for the same key, so scorecards saved before rules existed keep scoring the same
+function analyzerFor(param: ScorecardParameter): Analyzer | undefined {
+  const name = param.analyzer ?? param.key;
+  const rule = param.rule ?? (analyzers[name] ? undefined : builtInRules[name]);
+  return rule ? ctx => evaluateRule(rule, ctx) : analyzers[name];
+}
+
+// Observations are the sentences analyzers and rules flagged, in scorecard order
+export function scoreParameters(
+  parameters: ScorecardParameter[],
+  ctx: AnalysisContext
+): { scores: Record<string, number>; details: Record<string, ParameterDetail>; observations: string[] } {
+  const scores: Record<string, number> = {};
+  const details: Record<string, ParameterDetail> = {};
+  const observations: string[] = [];
+  for (const param of parameters) {
+    const analyzer = analyzerFor(param);
+    if (!analyzer) {
+      console.warn(`No analyzer registered for parameter ${param.key}, scoring 0`);
+      scores[param.key] = 0;
+      details[param.key] = { reason: "No analyzer configured for this parameter", evidence: [], mode: "keyword" };
+      continue;
+    }
+    const result = analyzer(ctx);
+    scores[param.key] = Math.round(result.score * param.weight);
+    details[param.key] = { reason: result.reason, evidence: result.evidence, mode: "keyword" };
+    if (result.observation) observations.push(result.observation);
+  }
+  return { scores, details, observations };
+}
@@ -0,0 +1,164 @@
+import { AnalysisError } from "./errors";
+
+export type AudioFormat = "wav" | "mp3" | "mp4" | "aac" | "ogg" | "flac" | "webm";
+
+// Upload extensions we accept, with the content type sent to the provider
+export const AUDIO_TYPES: Record<string, string> = {
+  ".wav": "audio/wav",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".mp4": "audio/mp4",
+  ".aac": "audio/aac",
+  ".ogg": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".flac": "audio/flac",
+  ".webm": "audio/webm",
+};
+
+const FORMAT_TYPES: Record<AudioFormat, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  webm: "audio/webm",
+};
+
+export interface AudioInfo {
+  format: AudioFormat;
+  mimeType: string;
+  // Seconds; null where the container doesn't say without decoding (everything but WAV and MP3)
+  duration: number | null;
+}
+
+export function maxUploadBytes(): number {
+  return Number(process.env.MAX_UPLOAD_MB || 100) * 1024 * 1024;
+}
+
+function maxDurationSeconds(): number {
+  return Number(process.env.MAX_CALL_MINUTES || 90) * 60;
+}
+
+// Identifies the container from its first bytes; the file name and declared type are
+// only what the client claims
+export function detectFormat(buffer: Buffer): AudioFormat | null {
+  if (buffer.length < 12) return null;
+  const ascii = (start: number, end: number) => buffer.toString("ascii", start, end);
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WAVE") return "wav";
+  if (ascii(0, 3) === "ID3") return "mp3";
+  if (ascii(4, 8) === "ftyp") return "mp4";
+  if (ascii(0, 4) === "OggS") return "ogg";
+  if (ascii(0, 4) === "fLaC") return "flac";
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) return "webm";
+  if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) {
+    // MPEG frame sync: layer bits 00 are ADTS AAC, anything else is MPEG audio
+    return (buffer[1] & 0x06) === 0 ? "aac" : "mp3";
+  }
+  return null;
+}
+
+function wavDuration(buffer: Buffer): number | null {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === "fmt " && offset + 20 <= buffer.length) {
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (id === "data") {
+      // Streamed recordings can leave the size unset, so trust what's actually there
+      const available = buffer.length - offset - 8;
+      return byteRate ? Math.min(size, available) / byteRate : null;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// Bytes of audio per second of a WAV stream, from its fmt chunk
+export function wavByteRate(buffer: Buffer): number | null {
+  if (detectFormat(buffer) !== "wav") return null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    if (id === "fmt " && offset + 20 <= buffer.length) return buffer.readUInt32LE(offset + 16) || null;
+    if (id === "data") return null;
+    const size = buffer.readUInt32LE(offset + 4);
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+const MP3_BITRATES = {
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+// Reads the first Layer III frame: a Xing/Info header gives the exact frame count (VBR),
+// otherwise the duration is estimated from the frame's bitrate
+function mp3Duration(buffer: Buffer): number | null {
+  let offset = 0;
+  if (buffer.toString("ascii", 0, 3) === "ID3") {
+    const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+    offset = 10 + size + (buffer[5] & 0x10 ? 10 : 0);
+  }
+  while (offset + 4 <= buffer.length && !(buffer[offset] === 0xff && (buffer[offset + 1] & 0xe0) === 0xe0)) offset++;
+  if (offset + 4 > buffer.length) return null;
+
+  const version = (buffer[offset + 1] >> 3) & 3; // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+  const layer = (buffer[offset + 1] >> 1) & 3; // 1: Layer III
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 3;
+  if (layer !== 1 || version === 1 || sampleRateIndex === 3) return null;
+
+  const mpeg1 = version === 3;
+  const sampleRate = MP3_SAMPLE_RATES[sampleRateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+  const mono = buffer[offset + 3] >> 6 === 3;
+  const xing = offset + 4 + (mpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+  const tag = buffer.toString("ascii", xing, xing + 4);
+  if ((tag === "Xing" || tag === "Info") && xing + 12 <= buffer.length && buffer.readUInt32BE(xing + 4) & 1) {
+    return (buffer.readUInt32BE(xing + 8) * samplesPerFrame) / sampleRate;
+  }
+  const bitrate = (mpeg1 ? MP3_BITRATES.v1 : MP3_BITRATES.v2)[bitrateIndex];
+  return bitrate ? ((buffer.length - offset) * 8) / (bitrate * 1000) : null;
+}
+
+export function audioDuration(buffer: Buffer, format: AudioFormat): number | null {
+  if (format === "wav") return wavDuration(buffer);
+  if (format === "mp3") return mp3Duration(buffer);
+  return null;
+}
+
+// Checks an upload before it is sent for (paid) transcription: it must be audio we
+// recognise, within the size limit and, where the length is knowable up front, the
+// duration limit
+export function validateAudio(audio: Buffer): AudioInfo {
+  if (!audio.length) {
+    throw new AnalysisError("UNSUPPORTED_FORMAT", "The uploaded file is empty");
+  }
+  const maxBytes = maxUploadBytes();
+  if (audio.length > maxBytes) {
+    const mb = (bytes: number) => Math.round((bytes / 1024 / 1024) * 10) / 10;
+    throw new AnalysisError("FILE_TOO_LARGE", `File is ${mb(audio.length)} MB; the limit is ${mb(maxBytes)} MB`);
+  }
+  const format = detectFormat(audio);
+  if (!format) {
+    throw new AnalysisError(
+      "UNSUPPORTED_FORMAT",
+      "Unrecognised audio format. Upload WAV, MP3, M4A, AAC, OGG, FLAC or WebM audio"
+    );
+  }
+  const duration = audioDuration(audio, format);
+  const maxDuration = maxDurationSeconds();
+  if (duration !== null && duration > maxDuration) {
+    const minutes = (seconds: number) => Math.round(seconds / 6) / 10;
+    throw new AnalysisError(
+      "AUDIO_TOO_LONG",
+      `Recording is ${minutes(duration)} minutes long; the limit is ${minutes(maxDuration)} minutes`
+    );
+  }
+  return { format, mimeType: FORMAT_TYPES[format], duration };
+}
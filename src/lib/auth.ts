@@ -0,0 +1,364 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { CallOwner, CallScope } from "./calls";
+import { SESSION_COOKIE } from "./cookies";
+import { readCollection, updateCollection } from "./store";
+
+// Agents see their own calls, reviewers can analyze and override scores for the whole
+// organization, admins also manage scorecards, webhooks, users and API keys
+export type Role = "agent" | "reviewer" | "admin";
+
+export const ROLES: Role[] = ["agent", "reviewer", "admin"];
+
+// API keys act for the organization rather than a person, so they can't be tied to one agent
+export type ApiKeyRole = Exclude<Role, "agent">;
+
+export interface User {
+  id: string;
+  orgId: string;
+  email: string;
+  name: string;
+  role: Role;
+  // Agent name as recorded on calls; an agent login only sees calls under this name
+  agent: string | null;
+  passwordHash: string;
+  createdAt: string;
+}
+
+export type PublicUser = Omit<User, "passwordHash">;
+
+export interface UserInput {
+  email?: string;
+  name?: string;
+  password?: string;
+  role?: Role;
+  agent?: string | null;
+}
+
+export interface ApiKey {
+  id: string;
+  orgId: string;
+  name: string;
+  role: ApiKeyRole;
+  // Start of the key, enough to recognise it in a list
+  prefix: string;
+  keyHash: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+export interface ApiKeyInput {
+  name?: string;
+  role?: ApiKeyRole;
+}
+
+interface Session {
+  id: string;
+  // Only the hash is stored, so a leaked data directory doesn't hand out logins
+  tokenHash: string;
+  userId: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// Who is making a request: a signed-in user or an API key, always within one organization
+export interface Principal {
+  orgId: string;
+  role: Role;
+  // Recorded as the uploader and reviewer on calls
+  name: string;
+  userId?: string;
+  apiKeyId?: string;
+  agent: string | null;
+}
+
+// The parts of a NextRequest auth needs; lib modules don't depend on next
+export interface AuthRequest {
+  headers: { get(name: string): string | null };
+  cookies: { get(name: string): { value: string } | undefined };
+}
+
+const USERS = "users";
+const API_KEYS = "api-keys";
+const SESSIONS = "sessions";
+
+const KEY_PREFIX = "qak_";
+const MIN_PASSWORD_LENGTH = 8;
+// lastUsedAt is only rewritten this often, so busy integrations don't rewrite the file per request
+const KEY_USAGE_RESOLUTION_MS = 60_000;
+
+const RANK: Record<Role, number> = { agent: 0, reviewer: 1, admin: 2 };
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export function sessionTtlMs(): number {
+  return Number(process.env.SESSION_TTL_HOURS || 24 * 7) * 60 * 60 * 1000;
+}
+
+// Cookie attributes for a session; secure whenever the app is served over https
+export function sessionCookieOptions(expiresAt: string, secure: boolean) {
+  return { httpOnly: true, sameSite: "lax" as const, secure, path: "/", expires: new Date(expiresAt) };
+}
+
+export function isRole(value: unknown): value is Role {
+  return (ROLES as unknown[]).includes(value);
+}
+
+export function hasRole(principal: Principal, role: Role): boolean {
+  return RANK[principal.role] >= RANK[role];
+}
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    orgId: user.orgId,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    agent: user.agent,
+    createdAt: user.createdAt,
+  };
+}
+
+function toPublicKey(key: ApiKey): PublicApiKey {
+  return {
+    id: key.id,
+    orgId: key.orgId,
+    name: key.name,
+    role: key.role,
+    prefix: key.prefix,
+    createdBy: key.createdBy,
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+  };
+}
+
+// Returns an error message, or null when the input is usable. New users need every field;
+// updates only validate what they change
+export function validateUserInput(input: UserInput, creating: boolean): string | null {
+  if (creating || input.email !== undefined) {
+    if (typeof input.email !== "string" || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email.trim())) {
+      return "A valid email is required";
+    }
+  }
+  if (creating || input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) return "Name is required";
+  }
+  if (creating || input.password !== undefined) {
+    if (typeof input.password !== "string" || input.password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+  }
+  if (input.role !== undefined && !isRole(input.role)) {
+    return `role must be one of: ${ROLES.join(", ")}`;
+  }
+  if (input.agent !== undefined && input.agent !== null && typeof input.agent !== "string") {
+    return "agent must be a string";
+  }
+  return null;
+}
+
+export async function listUsers(orgId: string): Promise<PublicUser[]> {
+  return (await readCollection<User>(USERS)).filter(u => u.orgId === orgId).map(toPublicUser);
+}
+
+export async function emailTaken(email: string): Promise<boolean> {
+  const wanted = normalizeEmail(email);
+  return (await readCollection<User>(USERS)).some(u => u.email === wanted);
+}
+
+// Emails are unique across organizations since they are the login. Returns null when the
+// email is already registered
+export async function createUser(orgId: string, input: UserInput): Promise<PublicUser | null> {
+  const user: User = {
+    id: randomUUID(),
+    orgId,
+    email: normalizeEmail(input.email!),
+    name: input.name!.trim(),
+    role: input.role ?? "agent",
+    agent: input.agent?.trim() || null,
+    passwordHash: await hashPassword(input.password!),
+    createdAt: new Date().toISOString(),
+  };
+  const created = await updateCollection<User, boolean>(USERS, items =>
+    items.some(u => u.email === user.email) ? { items, result: false } : { items: [...items, user], result: true }
+  );
+  return created ? toPublicUser(user) : null;
+}
+
+// Returns null when the user isn't in the organization, "conflict" when the new email
+// belongs to someone else
+export async function updateUser(orgId: string, id: string, input: UserInput): Promise<PublicUser | null | "conflict"> {
+  const passwordHash = input.password !== undefined ? await hashPassword(input.password) : undefined;
+  const email = input.email !== undefined ? normalizeEmail(input.email) : undefined;
+  return updateCollection<User, PublicUser | null | "conflict">(USERS, items => {
+    const current = items.find(u => u.id === id && u.orgId === orgId);
+    if (!current) return { items, result: null };
+    if (email && items.some(u => u.email === email && u.id !== id)) return { items, result: "conflict" };
+    const updated: User = {
+      ...current,
+      email: email ?? current.email,
+      name: input.name?.trim() || current.name,
+      role: input.role ?? current.role,
+      agent: input.agent !== undefined ? input.agent?.trim() || null : current.agent,
+      passwordHash: passwordHash ?? current.passwordHash,
+    };
+    return { items: items.map(u => (u.id === id ? updated : u)), result: toPublicUser(updated) };
+  });
+}
+
+export async function deleteUser(orgId: string, id: string): Promise<boolean> {
+  const deleted = await updateCollection<User, boolean>(USERS, items => ({
+    items: items.filter(u => !(u.id === id && u.orgId === orgId)),
+    result: items.some(u => u.id === id && u.orgId === orgId),
+  }));
+  if (deleted) {
+    await updateCollection<Session, void>(SESSIONS, items => ({ items: items.filter(s => s.userId !== id), result: undefined }));
+  }
+  return deleted;
+}
+
+// Starts a session for the user and returns the cookie token; expired sessions are
+// dropped while the collection is being rewritten anyway
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: string }> {
+  const token = randomBytes(32).toString("hex");
+  const now = Date.now();
+  const session: Session = {
+    id: randomUUID(),
+    tokenHash: sha256(token),
+    userId,
+    expiresAt: new Date(now + sessionTtlMs()).toISOString(),
+    createdAt: new Date(now).toISOString(),
+  };
+  const nowIso = new Date(now).toISOString();
+  await updateCollection<Session, void>(SESSIONS, items => ({
+    items: [...items.filter(s => s.expiresAt > nowIso), session],
+    result: undefined,
+  }));
+  return { token, expiresAt: session.expiresAt };
+}
+
+// Checks an email and password; null for either being wrong, so callers can't tell which
+export async function login(email: string, password: string): Promise<{ user: PublicUser; token: string; expiresAt: string } | null> {
+  const user = (await readCollection<User>(USERS)).find(u => u.email === normalizeEmail(email));
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+  return { user: toPublicUser(user), ...(await createSession(user.id)) };
+}
+
+export async function endSession(token: string): Promise<void> {
+  const tokenHash = sha256(token);
+  await updateCollection<Session, void>(SESSIONS, items => ({ items: items.filter(s => s.tokenHash !== tokenHash), result: undefined }));
+}
+
+export function validateApiKeyInput(input: ApiKeyInput): string | null {
+  if (typeof input.name !== "string" || !input.name.trim()) return "API key name is required";
+  if (input.role !== undefined && input.role !== "reviewer" && input.role !== "admin") {
+    return "role must be reviewer or admin";
+  }
+  return null;
+}
+
+export async function listApiKeys(orgId: string): Promise<PublicApiKey[]> {
+  return (await readCollection<ApiKey>(API_KEYS))
+    .filter(k => k.orgId === orgId)
+    .map(toPublicKey);
+}
+
+// The full key is only returned here; what is stored is its hash
+export async function createApiKey(orgId: string, input: ApiKeyInput, createdBy: string): Promise<PublicApiKey & { key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+  const apiKey: ApiKey = {
+    id: randomUUID(),
+    orgId,
+    name: input.name!.trim(),
+    role: input.role ?? "reviewer",
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    keyHash: sha256(key),
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  await updateCollection<ApiKey, void>(API_KEYS, items => ({ items: [...items, apiKey], result: undefined }));
+  return { ...toPublicKey(apiKey), key };
+}
+
+export async function deleteApiKey(orgId: string, id: string): Promise<boolean> {
+  return updateCollection<ApiKey, boolean>(API_KEYS, items => ({
+    items: items.filter(k => !(k.id === id && k.orgId === orgId)),
+    result: items.some(k => k.id === id && k.orgId === orgId),
+  }));
+}
+
+async function principalForKey(key: string): Promise<Principal | null> {
+  const keyHash = sha256(key);
+  const apiKey = (await readCollection<ApiKey>(API_KEYS)).find(k => k.keyHash === keyHash);
+  if (!apiKey) return null;
+  if (!apiKey.lastUsedAt || Date.now() - Date.parse(apiKey.lastUsedAt) > KEY_USAGE_RESOLUTION_MS) {
+    const lastUsedAt = new Date().toISOString();
+    await updateCollection<ApiKey, void>(API_KEYS, items => ({
+      items: items.map(k => (k.id === apiKey.id ? { ...k, lastUsedAt } : k)),
+      result: undefined,
+    }));
+  }
+  return { orgId: apiKey.orgId, role: apiKey.role, name: `API key ${apiKey.name}`, apiKeyId: apiKey.id, agent: null };
+}
+
+async function principalForSession(token: string): Promise<Principal | null> {
+  const tokenHash = sha256(token);
+  const now = new Date().toISOString();
+  const session = (await readCollection<Session>(SESSIONS)).find(s => s.tokenHash === tokenHash && s.expiresAt > now);
+  if (!session) return null;
+  // Looked up on every request so role changes and removals apply straight away
+  const user = (await readCollection<User>(USERS)).find(u => u.id === session.userId);
+  if (!user) return null;
+  return { orgId: user.orgId, role: user.role, name: user.name, userId: user.id, agent: user.agent };
+}
+
+// API keys come as "Authorization: Bearer <key>" or "X-API-Key: <key>"; browsers use the
+// session cookie. A key that is sent but wrong doesn't fall back to the cookie
+export async function authenticate(req: AuthRequest): Promise<Principal | null> {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const key = bearer ?? req.headers.get("x-api-key");
+  if (key) return principalForKey(key);
+  const session = req.cookies.get(SESSION_COOKIE)?.value;
+  return session ? principalForSession(session) : null;
+}
+
+export async function authorize(req: AuthRequest, role: Role): Promise<{ principal: Principal } | { error: string; status: number }> {
+  const principal = await authenticate(req);
+  if (!principal) {
+    return { error: "Authentication required", status: 401 };
+  }
+  if (!hasRole(principal, role)) {
+    return { error: `This action needs the ${role} role`, status: 403 };
+  }
+  return { principal };
+}
+
+export function callScope(principal: Principal): CallScope {
+  return principal.role === "agent" ? { orgId: principal.orgId, agent: principal.agent } : { orgId: principal.orgId };
+}
+
+export function callOwner(principal: Principal): CallOwner {
+  return { orgId: principal.orgId, uploadedBy: principal.name };
+}
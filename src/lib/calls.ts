@@ -0,0 +1,203 @@
+import { randomUUID } from "crypto";
+import type { AnalysisResult } from "./pipeline";
+import type { PiiCounts } from "./redaction";
+import type { AuditEntry, ReviewState, ScoreOverride } from "./review";
+import { readCollection, updateCollection } from "./store";
+import type { NormalizedTranscript } from "./types";
+
+export type StoredResult = Omit<AnalysisResult, "transcript">;
+
+// A scored call as it was evaluated: the transcript is kept so the evaluation can be
+// reopened without re-uploading (and paying for) the audio
+export interface CallRecord {
+  id: string;
+  orgId: string;
+  // User or API key that uploaded the recording
+  uploadedBy?: string;
+  fileName: string;
+  // Seconds, from the provider or the last utterance
+  duration: number | null;
+  agent: string | null;
+  team: string | null;
+  campaign: string | null;
+  // Disposition code the agent logged for the call
+  disposition: string | null;
+  // PII-masked. Utterances carry the speaker roles used for scoring (records saved before
+  // roles were kept only have speaker/channel ids)
+  transcript: NormalizedTranscript;
+  // How many of each kind of PII were masked out of the transcript
+  redactions?: PiiCounts;
+  // Effective result: reviewer overrides are applied to scores and summary
+  result: StoredResult;
+  // Present once a reviewer has touched the call; automatedScores keeps the original values
+  automatedScores?: Record<string, number>;
+  overrides?: Record<string, ScoreOverride>;
+  review?: ReviewState;
+  audit?: AuditEntry[];
+  createdAt: string;
+}
+
+export interface CallSummary {
+  id: string;
+  fileName: string;
+  duration: number | null;
+  agent: string | null;
+  team: string | null;
+  campaign: string | null;
+  scorecard: AnalysisResult["scorecard"];
+  percentage: number;
+  grade: string;
+  fatalErrors: number;
+  reviewed: boolean;
+  createdAt: string;
+}
+
+export interface CallFilters {
+  // Free text matched against file name, agent, team, campaign and transcript
+  q?: string;
+  agent?: string;
+  team?: string;
+  campaign?: string;
+  scorecardId?: string;
+  grade?: string;
+  fatalOnly?: boolean;
+  reviewed?: boolean;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+}
+
+// Which calls a caller may see: their organization's, narrowed to one agent's calls for
+// agent logins
+export interface CallScope {
+  orgId: string;
+  // Present only for agents; null (no agent name set up yet) matches nothing
+  agent?: string | null;
+}
+
+export interface CallOwner {
+  orgId: string;
+  uploadedBy: string;
+}
+
+export interface NewCall extends CallOwner {
+  fileName: string;
+  agent?: string;
+  team?: string;
+  campaign?: string;
+  disposition?: string;
+  transcript: NormalizedTranscript;
+  result: StoredResult;
+  redactions?: PiiCounts;
+}
+
+const COLLECTION = "calls";
+
+function durationOf(transcript: NormalizedTranscript): number | null {
+  if (transcript.duration) return transcript.duration;
+  const last = transcript.utterances[transcript.utterances.length - 1];
+  return last ? last.end : null;
+}
+
+export function summarizeCall(call: CallRecord): CallSummary {
+  return {
+    id: call.id,
+    fileName: call.fileName,
+    duration: call.duration,
+    agent: call.agent,
+    team: call.team ?? null,
+    campaign: call.campaign,
+    scorecard: call.result.scorecard,
+    percentage: call.result.summary.percentage,
+    grade: call.result.summary.grade,
+    fatalErrors: call.result.summary.fatalErrors.length,
+    reviewed: !!call.review,
+    createdAt: call.createdAt,
+  };
+}
+
+export async function saveCall(input: NewCall): Promise<CallRecord> {
+  const call: CallRecord = {
+    id: randomUUID(),
+    orgId: input.orgId,
+    uploadedBy: input.uploadedBy,
+    fileName: input.fileName,
+    duration: durationOf(input.transcript),
+    agent: input.agent?.trim() || null,
+    team: input.team?.trim() || null,
+    campaign: input.campaign?.trim() || null,
+    disposition: input.disposition?.trim() || null,
+    transcript: input.transcript,
+    result: input.result,
+    redactions: input.redactions,
+    createdAt: new Date().toISOString(),
+  };
+  return updateCollection<CallRecord, CallRecord>(COLLECTION, items => ({ items: [...items, call], result: call }));
+}
+
+function inScope(call: CallRecord, scope: CallScope): boolean {
+  if (call.orgId !== scope.orgId) return false;
+  return scope.agent === undefined || (scope.agent !== null && call.agent === scope.agent);
+}
+
+async function scopedCalls(scope: CallScope): Promise<CallRecord[]> {
+  return (await readCollection<CallRecord>(COLLECTION)).filter(call => inScope(call, scope));
+}
+
+// Calls outside the scope are reported as missing, not forbidden, so ids can't be probed
+export async function getCall(scope: CallScope, id: string): Promise<CallRecord | null> {
+  return (await scopedCalls(scope)).find(c => c.id === id) ?? null;
+}
+
+// Replaces one stored call with update(call) under the collection lock; null when it doesn't exist
+export async function updateCall(id: string, update: (call: CallRecord) => CallRecord): Promise<CallRecord | null> {
+  return updateCollection<CallRecord, CallRecord | null>(COLLECTION, items => {
+    const index = items.findIndex(c => c.id === id);
+    if (index === -1) return { items, result: null };
+    const updated = update(items[index]);
+    return { items: items.map((c, i) => (i === index ? updated : c)), result: updated };
+  });
+}
+
+function matchesFilters(call: CallRecord, filters: CallFilters): boolean {
+  if (filters.agent && call.agent !== filters.agent) return false;
+  if (filters.team && call.team !== filters.team) return false;
+  if (filters.campaign && call.campaign !== filters.campaign) return false;
+  if (filters.scorecardId && call.result.scorecard.id !== filters.scorecardId) return false;
+  if (filters.grade && call.result.summary.grade !== filters.grade) return false;
+  if (filters.fatalOnly && !call.result.summary.fatalErrors.length) return false;
+  if (filters.reviewed !== undefined && !!call.review !== filters.reviewed) return false;
+  // Date-only bounds cover the whole day
+  if (filters.from && call.createdAt < filters.from) return false;
+  if (filters.to && call.createdAt.slice(0, filters.to.length) > filters.to) return false;
+  if (filters.q) {
+    const q = filters.q.toLowerCase();
+    const haystack = [call.fileName, call.agent, call.team, call.campaign, call.transcript.transcript];
+    if (!haystack.some(text => text?.toLowerCase().includes(q))) return false;
+  }
+  return true;
+}
+
+// Newest first
+export async function findCalls(scope: CallScope, filters: CallFilters = {}): Promise<CallRecord[]> {
+  return (await scopedCalls(scope))
+    .filter(call => matchesFilters(call, filters))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function listCalls(scope: CallScope, filters: CallFilters = {}): Promise<CallSummary[]> {
+  return (await findCalls(scope, filters)).map(summarizeCall);
+}
+
+// Distinct values for the history page's filter dropdowns
+export async function callFacets(scope: CallScope): Promise<{ agents: string[]; teams: string[]; campaigns: string[]; grades: string[] }> {
+  const calls = await scopedCalls(scope);
+  const distinct = (values: (string | null)[]) =>
+    [...new Set(values.filter((v): v is string => !!v))].sort();
+  return {
+    agents: distinct(calls.map(c => c.agent)),
+    teams: distinct(calls.map(c => c.team)),
+    campaigns: distinct(calls.map(c => c.campaign)),
+    grades: distinct(calls.map(c => c.result.summary.grade)),
+  };
+}
@@ -0,0 +1,3 @@
+// Kept apart from auth so the middleware can read it without pulling node-only modules
+// into the edge bundle
+export const SESSION_COOKIE = "qa_session";
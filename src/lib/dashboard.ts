@@ -0,0 +1,130 @@
+import type { CallRecord } from "./calls";
+import type { ResultParameter } from "./pipeline";
+
+export type TrendInterval = "day" | "week" | "month";
+
+export interface GroupStats {
+  name: string;
+  calls: number;
+  averagePercentage: number;
+  // Share of calls (0-100) with at least one fatal parameter failed
+  fatalRate: number;
+}
+
+export interface ParameterStats {
+  key: string;
+  name: string;
+  fatal: boolean;
+  evaluated: number;
+  // Share of calls (0-100) in which the parameter passed, see parameterPassed
+  passRate: number;
+  // Mean share of the parameter's weight earned, 0-100
+  averageScore: number;
+}
+
+export interface TrendPoint {
+  // First day of the bucket, YYYY-MM-DD
+  period: string;
+  calls: number;
+  averagePercentage: number;
+  fatalRate: number;
+}
+
+export interface Dashboard {
+  overall: GroupStats;
+  agents: GroupStats[];
+  teams: GroupStats[];
+  // Worst pass rate first
+  parameters: ParameterStats[];
+  trend: TrendPoint[];
+}
+
+const UNASSIGNED = "Unassigned";
+
+export function isTrendInterval(value: string): value is TrendInterval {
+  return value === "day" || value === "week" || value === "month";
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Pass/fail parameters only pass on full marks; scored ones need at least half the weight
+export function parameterPassed(param: ResultParameter, score: number): boolean {
+  return param.type === "PASS_FAIL" ? score >= param.weight : score >= param.weight / 2;
+}
+
+function groupStats(name: string, calls: CallRecord[]): GroupStats {
+  const total = calls.reduce((sum, c) => sum + c.result.summary.percentage, 0);
+  const fatal = calls.filter(c => c.result.summary.fatalErrors.length > 0).length;
+  return {
+    name,
+    calls: calls.length,
+    averagePercentage: calls.length ? round1(total / calls.length) : 0,
+    fatalRate: calls.length ? round1((fatal / calls.length) * 100) : 0,
+  };
+}
+
+function groupBy(calls: CallRecord[], keyOf: (call: CallRecord) => string): GroupStats[] {
+  const groups = new Map<string, CallRecord[]>();
+  for (const call of calls) {
+    const key = keyOf(call);
+    groups.set(key, [...(groups.get(key) ?? []), call]);
+  }
+  return [...groups].map(([name, group]) => groupStats(name, group)).sort((a, b) => b.averagePercentage - a.averagePercentage);
+}
+
+function parameterStats(calls: CallRecord[]): ParameterStats[] {
+  const byKey = new Map<string, { param: ResultParameter; evaluated: number; passed: number; earned: number }>();
+  // Calls are newest first, so the first definition seen is the current one
+  for (const call of calls) {
+    for (const param of call.result.parameters) {
+      const score = call.result.scores[param.key] ?? 0;
+      const entry = byKey.get(param.key) ?? { param, evaluated: 0, passed: 0, earned: 0 };
+      entry.evaluated++;
+      if (parameterPassed(param, score)) entry.passed++;
+      entry.earned += param.weight ? score / param.weight : 0;
+      byKey.set(param.key, entry);
+    }
+  }
+  return [...byKey.values()]
+    .map(({ param, evaluated, passed, earned }) => ({
+      key: param.key,
+      name: param.name,
+      fatal: param.fatal,
+      evaluated,
+      passRate: round1((passed / evaluated) * 100),
+      averageScore: round1((earned / evaluated) * 100),
+    }))
+    .sort((a, b) => a.passRate - b.passRate || a.averageScore - b.averageScore);
+}
+
+// Buckets are UTC days; weeks start on Monday
+function periodOf(createdAt: string, interval: TrendInterval): string {
+  const date = new Date(createdAt);
+  if (interval === "month") return createdAt.slice(0, 7) + "-01";
+  if (interval === "week") date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function trend(calls: CallRecord[], interval: TrendInterval): TrendPoint[] {
+  const buckets = new Map<string, CallRecord[]>();
+  for (const call of calls) {
+    const period = periodOf(call.createdAt, interval);
+    buckets.set(period, [...(buckets.get(period) ?? []), call]);
+  }
+  return [...buckets]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, group]) => {
+      const { calls: count, averagePercentage, fatalRate } = groupStats(period, group);
+      return { period, calls: count, averagePercentage, fatalRate };
+    });
+}
+
+export function buildDashboard(calls: CallRecord[], interval: TrendInterval = "day"): Dashboard {
+  return {
+    overall: groupStats("All calls", calls),
+    agents: groupBy(calls, c => c.agent || UNASSIGNED),
+    teams: groupBy(calls, c => c.team || UNASSIGNED),
+    parameters: parameterStats(calls),
+    trend: trend(calls, interval),
+  };
+}
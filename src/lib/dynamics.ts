@@ -0,0 +1,150 @@
+import { matchKeywords, type Lexicon } from "./language";
+import type { SpeakerRole, Utterance } from "./types";
+
+// How the conversation went, from utterance timings alone: who talked how much and how
+// fast, who talked over whom, and where nobody spoke
+
+export interface Segment {
+  start: number;
+  end: number;
+  seconds: number;
+}
+
+export interface SpeakerDynamics {
+  talkSeconds: number;
+  // Share (0-100) of the agent's and customer's combined talk time
+  talkShare: number | null;
+  wordsPerMinute: number | null;
+  // Longest run of consecutive utterances, in seconds
+  longestMonologue: number;
+  // Times this speaker started talking while the other still was
+  interruptions: number;
+}
+
+export interface Overtalk extends Segment {
+  // Who started talking over the other
+  by: SpeakerRole;
+}
+
+export interface Hold extends Segment {
+  // The agent asked the customer to hold first
+  announced: boolean;
+}
+
+export interface ConversationDynamics {
+  duration: number;
+  agent: SpeakerDynamics;
+  customer: SpeakerDynamics;
+  // Agent talk seconds per customer talk second
+  talkRatio: number | null;
+  longestMonologue: (Segment & { role: SpeakerRole }) | null;
+  // All time nobody was speaking, then the gaps long enough to notice
+  silenceSeconds: number;
+  deadAir: Segment[];
+  overtalk: Overtalk[];
+  overtalkSeconds: number;
+  holds: Hold[];
+}
+
+// A gap this long is dead air; one this long, or any gap after the agent asks the
+// customer to hold, is a hold
+const DEAD_AIR_SECONDS = 4;
+const HOLD_SECONDS = 20;
+// Timestamps from ASR jitter by a few tens of milliseconds; smaller overlaps aren't overtalk
+const OVERTALK_MIN_SECONDS = 0.3;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const segment = (start: number, end: number): Segment => ({ start, end, seconds: round1(end - start) });
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const talkSeconds = (utterances: Utterance[], role: SpeakerRole) =>
+  utterances.filter(u => u.role === role).reduce((sum, u) => sum + Math.max(0, u.end - u.start), 0);
+
+interface Measured {
+  sorted: Utterance[];
+  runs: (Segment & { role: SpeakerRole })[];
+  overtalk: Overtalk[];
+}
+
+function speakerDynamics({ sorted, runs, overtalk }: Measured, role: SpeakerRole, otherSeconds: number): SpeakerDynamics {
+  const seconds = talkSeconds(sorted, role);
+  const words = sorted.filter(u => u.role === role).reduce((sum, u) => sum + wordCount(u.transcript), 0);
+  return {
+    talkSeconds: round1(seconds),
+    talkShare: seconds + otherSeconds ? round1((seconds / (seconds + otherSeconds)) * 100) : null,
+    wordsPerMinute: seconds ? Math.round(words / (seconds / 60)) : null,
+    longestMonologue: runs.filter(run => run.role === role).reduce((max, run) => Math.max(max, run.seconds), 0),
+    interruptions: overtalk.filter(o => o.by === role).length,
+  };
+}
+
+// Consecutive utterances by the same known speaker, as one stretch each until a pause
+function monologues(utterances: Utterance[]): (Segment & { role: SpeakerRole })[] {
+  const runs: (Segment & { role: SpeakerRole })[] = [];
+  for (const u of utterances) {
+    const last = runs[runs.length - 1];
+    if (last && last.role === u.role && u.start - last.end < DEAD_AIR_SECONDS) {
+      last.end = Math.max(last.end, u.end);
+      last.seconds = round1(last.end - last.start);
+    } else {
+      runs.push({ ...segment(u.start, u.end), role: u.role ?? "unknown" });
+    }
+  }
+  return runs.filter(run => run.role !== "unknown");
+}
+
+function findOvertalk(utterances: Utterance[]): Overtalk[] {
+  const overtalk: Overtalk[] = [];
+  utterances.forEach((u, i) => {
+    if (!u.role || u.role === "unknown") return;
+    // The earlier utterance by the other speaker that u started inside of, if any
+    const over = utterances
+      .slice(0, i)
+      .find(prev => prev.role && prev.role !== "unknown" && prev.role !== u.role && prev.start < u.start && prev.end - u.start >= OVERTALK_MIN_SECONDS);
+    if (over) overtalk.push({ ...segment(u.start, Math.min(over.end, u.end)), by: u.role });
+  });
+  return overtalk;
+}
+
+// Utterances may arrive in any order from multichannel transcripts, so they're sorted first
+export function measureDynamics(utterances: Utterance[], lexicon: Lexicon): ConversationDynamics {
+  const sorted = [...utterances].sort((a, b) => a.start - b.start);
+  const measured: Measured = { sorted, runs: monologues(sorted), overtalk: findOvertalk(sorted) };
+  const agentSeconds = talkSeconds(sorted, "agent");
+  const customerSeconds = talkSeconds(sorted, "customer");
+
+  let silenceSeconds = 0;
+  const deadAir: Segment[] = [];
+  const holds: Hold[] = [];
+  let heardUntil = sorted[0]?.start ?? 0;
+  let holdAsked = false;
+  for (const u of sorted) {
+    const gap = u.start - heardUntil;
+    if (gap > 0) {
+      silenceSeconds += gap;
+      if (gap >= HOLD_SECONDS || (holdAsked && gap >= DEAD_AIR_SECONDS)) {
+        holds.push({ ...segment(heardUntil, u.start), announced: holdAsked });
+      } else if (gap >= DEAD_AIR_SECONDS) {
+        deadAir.push(segment(heardUntil, u.start));
+      }
+    }
+    // Only the agent's last words before a gap decide whether it was announced
+    if (u.end >= heardUntil) holdAsked = u.role !== "customer" && matchKeywords(u.transcript, lexicon.hold).length > 0;
+    heardUntil = Math.max(heardUntil, u.end);
+  }
+
+  const { runs, overtalk } = measured;
+  const longest = runs.reduce<(Segment & { role: SpeakerRole }) | null>((max, run) => (!max || run.seconds > max.seconds ? run : max), null);
+  return {
+    duration: round1(heardUntil),
+    agent: speakerDynamics(measured, "agent", customerSeconds),
+    customer: speakerDynamics(measured, "customer", agentSeconds),
+    talkRatio: customerSeconds ? Math.round((agentSeconds / customerSeconds) * 100) / 100 : null,
+    longestMonologue: longest,
+    silenceSeconds: round1(silenceSeconds),
+    deadAir,
+    overtalk,
+    overtalkSeconds: round1(overtalk.reduce((sum, o) => sum + o.seconds, 0)),
+    holds,
+  };
+}
@@ -0,0 +1,68 @@
+// Error codes returned by the upload routes and stored on failed batch jobs, so clients
+// can react to the kind of failure instead of parsing messages
+export type ErrorCode =
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "NO_FILE"
+  | "INVALID_OPTIONS"
+  | "UNSUPPORTED_FORMAT"
+  | "FILE_TOO_LARGE"
+  | "AUDIO_TOO_LONG"
+  | "SCORECARD_NOT_FOUND"
+  | "PROVIDER_NOT_CONFIGURED"
+  | "TRANSCRIPTION_TIMEOUT"
+  | "TRANSCRIPTION_FAILED"
+  | "EMPTY_TRANSCRIPT"
+  | "INVALID_TRANSCRIPT"
+  | "INTERNAL_ERROR";
+
+const STATUS: Record<ErrorCode, number> = {
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  NO_FILE: 400,
+  INVALID_OPTIONS: 400,
+  UNSUPPORTED_FORMAT: 415,
+  FILE_TOO_LARGE: 413,
+  AUDIO_TOO_LONG: 422,
+  SCORECARD_NOT_FOUND: 404,
+  PROVIDER_NOT_CONFIGURED: 503,
+  TRANSCRIPTION_TIMEOUT: 504,
+  TRANSCRIPTION_FAILED: 502,
+  EMPTY_TRANSCRIPT: 422,
+  INVALID_TRANSCRIPT: 422,
+  INTERNAL_ERROR: 500,
+};
+
+// Failures where sending the same request again may succeed
+const RETRYABLE = new Set<ErrorCode>(["TRANSCRIPTION_TIMEOUT", "TRANSCRIPTION_FAILED", "INTERNAL_ERROR"]);
+
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+}
+
+export class AnalysisError extends Error {
+  constructor(public code: ErrorCode, message: string) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+
+  get status(): number {
+    return STATUS[this.code];
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.has(this.code);
+  }
+
+  toJSON(): ErrorBody {
+    return { error: this.message, code: this.code, retryable: this.retryable };
+  }
+}
+
+// Anything that isn't already an AnalysisError is an unexpected failure; its message
+// stays in the server log rather than the response
+export function toAnalysisError(error: unknown): AnalysisError {
+  return error instanceof AnalysisError ? error : new AnalysisError("INTERNAL_ERROR", "Processing failed");
+}
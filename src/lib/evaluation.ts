@@ -0,0 +1,231 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { isLanguageOption, type LanguageOption } from "./language";
+import { analyzeTranscript } from "./pipeline";
+import { redactTranscript } from "./redaction";
+import type { InputType, Scorecard } from "./scorecards";
+import { summarizeScores } from "./scoring";
+import { parseFixture } from "./transcription/fixture";
+import type { NormalizedTranscript } from "./types";
+
+// Human QA labels for one stored call, kept as <name>.labels.json in the evaluation folder
+export interface EvaluationLabels {
+  // Transcription JSON (a Deepgram response or normalized transcript), relative to the
+  // labels file; defaults to <name>.json next to it
+  transcript?: string;
+  language?: LanguageOption;
+  agentChannel?: number;
+  agentSpeaker?: number;
+  // The disposition code the agent logged, for the disposition check
+  disposition?: string;
+  // The human score per parameter key, in points. Parameters left out aren't evaluated
+  scores: Record<string, number>;
+}
+
+export interface EvaluationCase {
+  name: string;
+  transcript: NormalizedTranscript;
+  labels: EvaluationLabels;
+}
+
+export interface ParameterEvaluation {
+  key: string;
+  name: string;
+  type: InputType;
+  weight: number;
+  // Calls with a human label for the parameter
+  labelled: number;
+  // PASS_FAIL only: share (0-100) of calls where the analyzer passed or failed the
+  // parameter like the human did
+  accuracy?: number;
+  // PASS_FAIL only, with a fail as the positive class: the share of the analyzer's fails
+  // that humans agree with, and the share of human fails the analyzer caught. Null when
+  // there were none to divide by
+  precision?: number | null;
+  recall?: number | null;
+  // SCORE only: mean |human - automated| in points and as a share (0-100) of the weight,
+  // and mean human - automated (negative means the analyzer scores too generously)
+  meanAbsoluteError?: number;
+  meanAbsoluteErrorPct?: number;
+  bias?: number;
+}
+
+export interface EvaluationCallResult {
+  name: string;
+  automated: Record<string, number>;
+  human: Record<string, number>;
+  percentage: number;
+}
+
+export interface EvaluationReport {
+  createdAt: string;
+  scorecard: { id: string; version: number; name: string };
+  calls: number;
+  parameters: ParameterEvaluation[];
+  results: EvaluationCallResult[];
+}
+
+export interface MetricChange {
+  key: string;
+  metric: "accuracy" | "precision" | "recall" | "meanAbsoluteError" | "bias";
+  baseline: number | null;
+  current: number | null;
+  // Null when either run had nothing to measure
+  improved: boolean | null;
+}
+
+export interface ScoreChange {
+  call: string;
+  key: string;
+  baseline: number;
+  current: number;
+  human: number;
+}
+
+export interface EvaluationDiff {
+  metrics: MetricChange[];
+  // Automated scores that moved since the baseline, with the human score to judge them by
+  scores: ScoreChange[];
+}
+
+const LABELS_SUFFIX = ".labels.json";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const share = (part: number, whole: number) => (whole ? round2((part / whole) * 100) : null);
+
+// Returns an error message, or null when the labels can be evaluated against the scorecard
+export function validateLabels(labels: EvaluationLabels, scorecard: Scorecard): string | null {
+  if (!labels || typeof labels.scores !== "object" || !labels.scores) return "scores must be an object";
+  if (labels.transcript !== undefined && typeof labels.transcript !== "string") return "transcript must be a path";
+  if (labels.language !== undefined && !isLanguageOption(labels.language)) return `Unknown language: ${labels.language}`;
+  if (labels.disposition !== undefined && typeof labels.disposition !== "string") return "disposition must be a code";
+  for (const [key, score] of Object.entries(labels.scores)) {
+    const param = scorecard.parameters.find(p => p.key === key);
+    if (!param) return `Unknown parameter: ${key}`;
+    if (typeof score !== "number" || score < 0 || score > param.weight) {
+      return `Score for ${key} must be between 0 and ${param.weight}`;
+    }
+    if (param.inputType === "PASS_FAIL" && score !== 0 && score !== param.weight) {
+      return `${key} is pass/fail, so its score must be 0 or ${param.weight}`;
+    }
+  }
+  return null;
+}
+
+// Reads every <name>.labels.json in dir with the transcript it points at. Problems are
+// thrown with the file they came from, since a half-loaded set would skew the metrics
+export async function loadEvaluationSet(dir: string, scorecard: Scorecard): Promise<EvaluationCase[]> {
+  const files = (await fs.readdir(dir)).filter(f => f.endsWith(LABELS_SUFFIX)).sort();
+  const cases: EvaluationCase[] = [];
+  for (const file of files) {
+    const name = file.slice(0, -LABELS_SUFFIX.length);
+    const labelsPath = path.join(dir, file);
+    const labels = JSON.parse(await fs.readFile(labelsPath, "utf8")) as EvaluationLabels;
+    const invalid = validateLabels(labels, scorecard);
+    if (invalid) throw new Error(`${labelsPath}: ${invalid}`);
+    const transcriptPath = path.resolve(dir, labels.transcript ?? `${name}.json`);
+    const transcript = parseFixture(JSON.parse(await fs.readFile(transcriptPath, "utf8")));
+    cases.push({ name, transcript, labels });
+  }
+  return cases;
+}
+
+// Scores a call through the same pipeline as an upload in keyword mode: masked first,
+// with the clear text only for the outcome. No model is called and nothing is logged
+async function scoreCase(scorecard: Scorecard, { transcript, labels }: EvaluationCase): Promise<EvaluationCallResult["automated"]> {
+  const { transcript: masked } = redactTranscript(transcript);
+  const result = await analyzeTranscript(masked, {
+    scorecard,
+    speakerConfig: { agentChannel: labels.agentChannel, agentSpeaker: labels.agentSpeaker },
+    language: labels.language ?? "auto",
+    scoringMode: "keyword",
+    llmClient: null,
+    loggedDisposition: labels.disposition,
+    clearText: transcript.utterances.map(u => u.transcript),
+    quiet: true,
+  });
+  return result.scores;
+}
+
+export async function evaluateScorecard(scorecard: Scorecard, cases: EvaluationCase[]): Promise<EvaluationReport> {
+  const results: EvaluationCallResult[] = [];
+  for (const c of cases) {
+    const automated = await scoreCase(scorecard, c);
+    results.push({
+      name: c.name,
+      automated,
+      human: c.labels.scores,
+      percentage: summarizeScores(scorecard.parameters, automated, scorecard.gradeBands).percentage,
+    });
+  }
+
+  const parameters = scorecard.parameters.map(param => {
+    const pairs = results
+      .filter(r => r.human[param.key] !== undefined)
+      .map(r => ({ human: r.human[param.key], automated: r.automated[param.key] ?? 0 }));
+    const row: ParameterEvaluation = { key: param.key, name: param.name, type: param.inputType, weight: param.weight, labelled: pairs.length };
+    if (!pairs.length) return row;
+
+    if (param.inputType === "PASS_FAIL") {
+      // Full marks is a pass, as on the dashboard
+      const outcomes = pairs.map(p => ({ humanFail: p.human < param.weight, automatedFail: p.automated < param.weight }));
+      const caught = outcomes.filter(o => o.humanFail && o.automatedFail).length;
+      row.accuracy = share(outcomes.filter(o => o.humanFail === o.automatedFail).length, outcomes.length)!;
+      row.precision = share(caught, outcomes.filter(o => o.automatedFail).length);
+      row.recall = share(caught, outcomes.filter(o => o.humanFail).length);
+    } else {
+      const diffs = pairs.map(p => p.human - p.automated);
+      const mae = diffs.reduce((sum, d) => sum + Math.abs(d), 0) / diffs.length;
+      row.meanAbsoluteError = round2(mae);
+      row.meanAbsoluteErrorPct = round2((mae / param.weight) * 100);
+      row.bias = round2(diffs.reduce((sum, d) => sum + d, 0) / diffs.length);
+    }
+    return row;
+  });
+
+  return {
+    createdAt: new Date().toISOString(),
+    scorecard: { id: scorecard.id, version: scorecard.version, name: scorecard.name },
+    calls: results.length,
+    parameters,
+    results,
+  };
+}
+
+const METRICS: MetricChange["metric"][] = ["accuracy", "precision", "recall", "meanAbsoluteError", "bias"];
+
+// Higher is better for the pass/fail rates, lower for the error, and closer to zero for bias
+function isImprovement(metric: MetricChange["metric"], baseline: number | null, current: number | null): boolean | null {
+  if (baseline === null || current === null) return null;
+  if (metric === "meanAbsoluteError") return current < baseline;
+  if (metric === "bias") return Math.abs(current) < Math.abs(baseline);
+  return current > baseline;
+}
+
+// What changed between two runs: metrics that moved, and automated scores that moved on
+// calls both runs evaluated
+export function compareReports(current: EvaluationReport, baseline: EvaluationReport): EvaluationDiff {
+  const metrics: MetricChange[] = [];
+  for (const row of current.parameters) {
+    const before = baseline.parameters.find(p => p.key === row.key);
+    if (!before) continue;
+    for (const metric of METRICS) {
+      const was = before[metric] ?? null;
+      const now = row[metric] ?? null;
+      if (was === now) continue;
+      metrics.push({ key: row.key, metric, baseline: was, current: now, improved: isImprovement(metric, was, now) });
+    }
+  }
+
+  const scores: ScoreChange[] = [];
+  for (const result of current.results) {
+    const before = baseline.results.find(r => r.name === result.name);
+    if (!before) continue;
+    for (const [key, score] of Object.entries(result.automated)) {
+      const was = before.automated[key];
+      if (was === undefined || was === score || result.human[key] === undefined) continue;
+      scores.push({ call: result.name, key, baseline: was, current: score, human: result.human[key] });
+    }
+  }
+  return { metrics, scores };
+}
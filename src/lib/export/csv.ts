@@ -0,0 +1,18 @@
+import type { Cell, Table } from "./table";
+
+// Spreadsheets run text starting with these as a formula; file names, agent names and
+// transcript excerpts come from users
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCell(cell: Cell): string {
+  if (cell === null) return "";
+  // Numbers stay numbers, negative ones included
+  const text = typeof cell === "string" && FORMULA_START.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The byte order mark makes Excel read the file as UTF-8 instead of mangling Devanagari
+export function toCsv(table: Table): Buffer {
+  const lines = [table.headers, ...table.rows].map(row => row.map(escapeCell).join(","));
+  return Buffer.from("\uFEFF" + lines.join("\r\n") + "\r\n", "utf8");
+}
@@ -0,0 +1,50 @@
+import type { CallRecord } from "../calls";
+import { toCsv } from "./csv";
+import { toPdf } from "./pdf";
+import { callsTable, parametersTable } from "./table";
+import { toXlsx } from "./xlsx";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFile {
+  body: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+// CSV holds one row per call; the workbook adds a per-parameter sheet with reasons and
+// evidence; the PDF is the printable scorecard
+export async function exportCalls(calls: CallRecord[], format: ExportFormat, baseName: string): Promise<ExportFile> {
+  let body: Buffer;
+  if (format === "csv") {
+    body = toCsv(callsTable(calls));
+  } else if (format === "xlsx") {
+    body = await toXlsx([
+      { name: "Calls", table: callsTable(calls) },
+      { name: "Parameters", table: parametersTable(calls) },
+    ]);
+  } else {
+    body = await toPdf(calls);
+  }
+  // Header-safe: uploaded file names can carry quotes or Devanagari
+  const safeName = baseName.replace(/[^\w.-]+/g, "_");
+  return { body, contentType: CONTENT_TYPES[format], fileName: `${safeName}.${format}` };
+}
+
+export function attachmentHeaders(file: ExportFile): Record<string, string> {
+  return {
+    "Content-Type": file.contentType,
+    "Content-Disposition": `attachment; filename="${file.fileName}"`,
+  };
+}
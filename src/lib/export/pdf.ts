@@ -0,0 +1,138 @@
+import path from "path";
+import PDFDocument from "pdfkit";
+import type { CallRecord } from "../calls";
+
+// Noto Sans Devanagari covers Latin too, so Hindi and Hinglish text render with one font
+const FONT_DIR = path.join(process.cwd(), "fonts");
+const REGULAR = "NotoSansDevanagari-Regular";
+const BOLD = "NotoSansDevanagari-Bold";
+
+// Evidence excerpts printed under each parameter
+const MAX_EVIDENCE = 2;
+
+const MARGIN = 48;
+const MUTED = "#4a5568";
+const FATAL = "#c53030";
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+
+function heading(doc: PDFKit.PDFDocument, text: string): void {
+  doc.moveDown(0.8).font(BOLD).fontSize(12).fillColor("black").text(text, MARGIN);
+  doc.moveDown(0.2);
+}
+
+function metadata(doc: PDFKit.PDFDocument, call: CallRecord): void {
+  const { result } = call;
+  const rows: [string, string][] = [
+    ["File", call.fileName],
+    ["Analyzed", new Date(call.createdAt).toLocaleString("en-IN", { timeZone: "Asia/Kolkata" })],
+    ["Agent", call.agent ?? "–"],
+    ["Team", call.team ?? "–"],
+    ["Campaign", call.campaign ?? "–"],
+    ["Duration", call.duration !== null ? formatTime(call.duration) : "–"],
+    ["Transcription", call.transcript.provider],
+    ["Language", result.language.detected],
+    ["Reviewed", call.review ? `${call.review.reviewer}, ${new Date(call.review.at).toLocaleDateString("en-IN", { timeZone: "Asia/Kolkata" })}` : "–"],
+    ["Scoring", result.scoring.model ? `${result.scoring.requested} (${result.scoring.model})` : result.scoring.requested],
+  ];
+  doc.fontSize(9);
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.font(BOLD).fillColor(MUTED).text(label, MARGIN, y, { width: 90 });
+    doc.font(REGULAR).fillColor("black").text(value, MARGIN + 90, y);
+  }
+}
+
+function total(doc: PDFKit.PDFDocument, call: CallRecord): void {
+  const { summary } = call.result;
+  doc.moveDown(0.8);
+  doc.font(BOLD).fontSize(18).fillColor(summary.fatalErrors.length ? FATAL : "black")
+    .text(`${summary.percentage}%  ${summary.grade}`, MARGIN);
+  doc.font(REGULAR).fontSize(10).fillColor(MUTED).text(`${summary.score} / ${summary.maxScore} points`);
+  if (summary.fatalErrors.length) {
+    doc.fillColor(FATAL).text(
+      `Fatal errors: ${summary.fatalErrors.map(f => f.name).join(", ")} (before fatal rules: ${summary.rawPercentage}%)`
+    );
+  }
+}
+
+function parameters(doc: PDFKit.PDFDocument, call: CallRecord): void {
+  const { result } = call;
+  const width = doc.page.width - MARGIN * 2;
+  const columns = { name: MARGIN, score: MARGIN + width - 110, weight: MARGIN + width - 55 };
+
+  heading(doc, "Parameters");
+  doc.font(BOLD).fontSize(9).fillColor(MUTED);
+  const headerY = doc.y;
+  doc.text("Parameter", columns.name, headerY);
+  doc.text("Score", columns.score, headerY, { width: 50, align: "right" });
+  doc.text("Weight", columns.weight, headerY, { width: 55, align: "right" });
+  doc.moveTo(MARGIN, doc.y + 2).lineTo(MARGIN + width, doc.y + 2).strokeColor("#cbd5e1").stroke();
+  doc.moveDown(0.4);
+
+  for (const param of result.parameters) {
+    const detail = result.details[param.key];
+    const score = result.scores[param.key] ?? 0;
+    const failedFatal = param.fatal && score === 0;
+
+    if (doc.y > doc.page.height - MARGIN - 60) doc.addPage();
+    const y = doc.y;
+    doc.font(BOLD).fontSize(10).fillColor(failedFatal ? FATAL : "black");
+    doc.text(`${param.name}${param.fatal ? " (fatal)" : ""}`, columns.name, y, { width: columns.score - MARGIN - 10 });
+    const afterName = doc.y;
+    doc.text(String(score), columns.score, y, { width: 50, align: "right" });
+    doc.font(REGULAR).fillColor(MUTED).text(String(param.weight), columns.weight, y, { width: 55, align: "right" });
+    doc.y = afterName;
+
+    const override = call.overrides?.[param.key];
+    if (override) {
+      doc.font(REGULAR).fontSize(8.5).fillColor(FATAL).text(
+        `Overridden by ${override.reviewer} (automated: ${override.automatedScore}): ${override.comment}`,
+        MARGIN + 10, doc.y, { width: width - 10 }
+      );
+    }
+    if (detail) {
+      doc.font(REGULAR).fontSize(8.5).fillColor(MUTED)
+        .text(`${detail.mode === "llm" ? "LLM" : "Keyword"}: ${detail.reason}`, MARGIN + 10, doc.y, { width: width - 10 });
+      for (const item of detail.evidence.slice(0, MAX_EVIDENCE)) {
+        doc.fillColor("black").text(`[${formatTime(item.start)}] “${item.text}”`, MARGIN + 10, doc.y, { width: width - 10 });
+      }
+    }
+    doc.moveDown(0.4);
+  }
+}
+
+function feedback(doc: PDFKit.PDFDocument, call: CallRecord): void {
+  heading(doc, "Overall Feedback");
+  doc.font(REGULAR).fontSize(10).fillColor("black").text(call.result.overallFeedback || "–", MARGIN);
+  heading(doc, "Observation");
+  doc.font(REGULAR).fontSize(10).fillColor("black").text(call.result.observation || "–", MARGIN);
+}
+
+// Printable scorecard, one call per page (longer calls flow onto further pages)
+export function toPdf(calls: CallRecord[]): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN, autoFirstPage: false, info: { Title: "QA Scorecard" } });
+  doc.registerFont(REGULAR, path.join(FONT_DIR, `${REGULAR}.ttf`));
+  doc.registerFont(BOLD, path.join(FONT_DIR, `${BOLD}.ttf`));
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  for (const call of calls) {
+    doc.addPage();
+    doc.font(BOLD).fontSize(16).fillColor("black")
+      .text(`${call.result.scorecard.name} (v${call.result.scorecard.version})`, MARGIN);
+    doc.moveDown(0.4);
+    metadata(doc, call);
+    total(doc, call);
+    parameters(doc, call);
+    feedback(doc, call);
+  }
+  doc.end();
+  return done;
+}
@@ -0,0 +1,98 @@
+import type { CallRecord, StoredResult } from "../calls";
+
+export type Cell = string | number | null;
+
+export interface Table {
+  headers: string[];
+  rows: Cell[][];
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Parameters in first-seen order across the calls, so mixed scorecards share columns
+function parameterColumns(calls: CallRecord[]): { key: string; name: string }[] {
+  const columns = new Map<string, string>();
+  for (const call of calls) {
+    for (const param of call.result.parameters) {
+      if (!columns.has(param.key)) columns.set(param.key, param.name);
+    }
+  }
+  return [...columns].map(([key, name]) => ({ key, name }));
+}
+
+// One row per call: metadata, totals, a score column per parameter, then feedback
+export function callsTable(calls: CallRecord[]): Table {
+  const params = parameterColumns(calls);
+  return {
+    headers: [
+      "Call ID", "Analyzed At", "File", "Agent", "Team", "Campaign", "Duration (s)",
+      "Scorecard", "Scorecard Version", "Score", "Max Score", "Percentage", "Grade", "Fatal Errors", "Reviewed By",
+      ...params.map(p => p.name),
+      "Disposition", "Suggested Disposition", "Promise to Pay", "Promised Amount", "Promised Date", "Reason for Not Paying",
+      "Overall Feedback", "Observation",
+    ],
+    rows: calls.map(call => {
+      const { result } = call;
+      const scored = new Set(result.parameters.map(p => p.key));
+      // Calls scored before outcomes were extracted have none
+      const outcome = result.outcome as StoredResult["outcome"] | undefined;
+      return [
+        call.id,
+        call.createdAt,
+        call.fileName,
+        call.agent,
+        call.team ?? null,
+        call.campaign,
+        call.duration !== null ? round1(call.duration) : null,
+        result.scorecard.name,
+        result.scorecard.version,
+        result.summary.score,
+        result.summary.maxScore,
+        result.summary.percentage,
+        result.summary.grade,
+        result.summary.fatalErrors.map(f => f.name).join("; "),
+        call.review?.reviewer ?? null,
+        ...params.map(p => (scored.has(p.key) ? result.scores[p.key] ?? 0 : null)),
+        call.disposition ?? null,
+        outcome?.suggestedDisposition?.code ?? null,
+        outcome ? (outcome.promiseToPay ? "Yes" : "No") : null,
+        outcome?.amount ?? null,
+        outcome?.date?.date ?? null,
+        outcome?.refusalReason ?? null,
+        result.overallFeedback,
+        result.observation,
+      ];
+    }),
+  };
+}
+
+// One row per call and parameter, with the reason and evidence behind each score and
+// any reviewer override
+export function parametersTable(calls: CallRecord[]): Table {
+  return {
+    headers: [
+      "Call ID", "File", "Agent", "Parameter", "Score", "Weight", "Fatal", "Mode", "Reason", "Evidence",
+      "Automated Score", "Override Comment",
+    ],
+    rows: calls.flatMap(call =>
+      call.result.parameters.map(param => {
+        const detail = call.result.details[param.key];
+        const override = call.overrides?.[param.key];
+        return [
+          call.id,
+          call.fileName,
+          call.agent,
+          param.name,
+          call.result.scores[param.key] ?? 0,
+          param.weight,
+          param.fatal ? "Yes" : "No",
+          detail?.mode ?? null,
+          detail?.reason ?? null,
+          detail?.evidence.map(e => `[${round1(e.start)}s] ${e.text}`).join("\n") ?? null,
+          override ? override.automatedScore : null,
+          override ? `${override.comment} (${override.reviewer})` : null,
+        ];
+      })
+    ),
+  };
+}
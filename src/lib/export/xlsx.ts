@@ -0,0 +1,23 @@
+import ExcelJS from "exceljs";
+import type { Table } from "./table";
+
+// Widest cell in the column, clamped so feedback text doesn't produce huge columns
+const MIN_WIDTH = 8;
+const MAX_WIDTH = 60;
+
+function addSheet(workbook: ExcelJS.Workbook, name: string, table: Table): void {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.addRow(table.headers).font = { bold: true };
+  for (const row of table.rows) sheet.addRow(row);
+  sheet.columns.forEach((column, i) => {
+    const longest = Math.max(...[table.headers, ...table.rows].map(row => String(row[i] ?? "").split("\n")[0].length));
+    column.width = Math.min(Math.max(longest + 2, MIN_WIDTH), MAX_WIDTH);
+    column.alignment = { vertical: "top", wrapText: true };
+  });
+}
+
+export async function toXlsx(sheets: { name: string; table: Table }[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  for (const { name, table } of sheets) addSheet(workbook, name, table);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
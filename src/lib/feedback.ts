@@ -0,0 +1,73 @@
+import type { ScorecardParameter } from "./scorecards";
+import type { Sentiment, Topic } from "./types";
+
+// Share of a parameter's weight that makes it a strength, and below which a scored
+// parameter needs work (a pass on the dashboard is half the weight)
+const STRONG_FRACTION = 0.8;
+const WEAK_FRACTION = 0.5;
+
+const listed = (names: string[]) =>
+  names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0];
+
+// Summarizes the call from each parameter's earned share of its weight, so it reads the
+// same for any scorecard: scored parameters done well, parameters missed outright (fatal
+// ones first), and scored parameters that fell short
+export function generateOverallFeedback(
+  parameters: ScorecardParameter[],
+  scores: Record<string, number>,
+  sentiment: Sentiment
+): string {
+  const earned = (p: ScorecardParameter) => (p.weight > 0 ? Math.min(p.weight, scores[p.key] ?? 0) / p.weight : 0);
+  const strong = parameters.filter(p => p.inputType === "SCORE" && earned(p) >= STRONG_FRACTION);
+  const missed = parameters.filter(p => earned(p) === 0).sort((a, b) => Number(b.fatal) - Number(a.fatal));
+  const weak = parameters.filter(p => p.inputType === "SCORE" && earned(p) > 0 && earned(p) < WEAK_FRACTION);
+
+  const feedbackParts = [];
+  if (strong.length) feedbackParts.push(`did well on ${listed(strong.map(p => p.name))}`);
+  if (missed.length) feedbackParts.push(`missed ${listed(missed.map(p => p.name))}`);
+  if (weak.length) feedbackParts.push(`needs work on ${listed(weak.map(p => p.name))}`);
+
+  // Add sentiment-based feedback
+  if (sentiment.sentiment_score > 0.3) {
+    feedbackParts.push("maintained a positive tone throughout");
+  } else if (sentiment.sentiment_score < -0.3) {
+    feedbackParts.push("struggled with maintaining a positive tone");
+  }
+
+  // Combine feedback parts
+  let feedback = "The agent ";
+  if (feedbackParts.length > 0) {
+    feedback += feedbackParts.join(", ");
+  } else {
+    feedback += "performed adequately but has room for improvement";
+  }
+
+  return feedback;
+}
+
+// The sentences the scorecard's analyzers and rules flagged, followed by what the call
+// was about
+export function generateObservation(flagged: string[], topics: Topic[], sentiment: Sentiment): string {
+  const observations = [...flagged];
+
+  // Analyze main topics and sentiment
+  if (topics.length > 0) {
+    const mainTopics = topics
+      .sort((a, b) => b.confidence_score - a.confidence_score)
+      .slice(0, 2)
+      .map(t => t.topic);
+    
+    if (mainTopics.length > 0) {
+      const topicContext = mainTopics.join(' and ');
+      if (sentiment.sentiment_score > 0.3) {
+        observations.push(`Positive discussion about ${topicContext}`);
+      } else if (sentiment.sentiment_score < -0.3) {
+        observations.push(`Difficult conversation regarding ${topicContext}`);
+      } else {
+        observations.push(`Discussed ${topicContext}`);
+      }
+    }
+  }
+
+  return observations.join('. ') || "No specific observations available.";
+}
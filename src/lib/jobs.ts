@@ -0,0 +1,300 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { analyzeAudio, type AnalysisRequestOptions, type AudioInput, type SavedAnalysis } from "./analysis";
+import { AUDIO_TYPES, maxUploadBytes } from "./audio";
+import type { CallOwner } from "./calls";
+import { AnalysisError, toAnalysisError, type ErrorCode } from "./errors";
+import { redactText } from "./redaction";
+import { dataPath, readCollection, updateCollection } from "./store";
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed";
+
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  errorCode?: ErrorCode;
+  // The transcript is kept with the saved call (result.callId), not in the batch
+  result?: Omit<SavedAnalysis, "transcript">;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface Batch {
+  id: string;
+  orgId: string;
+  uploadedBy?: string;
+  options: AnalysisRequestOptions;
+  jobs: BatchJob[];
+  createdAt: string;
+}
+
+export type BatchCounts = Record<JobStatus, number> & { total: number };
+
+export interface BatchSummary {
+  id: string;
+  createdAt: string;
+  scorecardId: string;
+  counts: BatchCounts;
+}
+
+const COLLECTION = "batches";
+
+// The queue has to outlive hot reloads and be shared by every route bundle, so it
+// hangs off globalThis rather than module scope
+interface QueueState {
+  pending: { batchId: string; jobId: string }[];
+  active: number;
+  recovered: Promise<void> | null;
+}
+
+const globalQueue = globalThis as typeof globalThis & { __callJobQueue?: QueueState };
+const queue: QueueState = (globalQueue.__callJobQueue ??= { pending: [], active: 0, recovered: null });
+
+function concurrency(): number {
+  const value = Number(process.env.BATCH_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : 2;
+}
+
+function audioPath(batchId: string, jobId: string): string {
+  return dataPath("uploads", batchId, jobId);
+}
+
+export function isAudioFile(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() in AUDIO_TYPES;
+}
+
+// A whole batch upload, zips unpacked, is held in memory before it's queued, so it's
+// bounded in bytes and in calls; each call is also held to the single-upload limit
+export function maxBatchBytes(): number {
+  return Number(process.env.MAX_BATCH_MB || 1024) * 1024 * 1024;
+}
+
+function maxBatchFiles(): number {
+  const value = Number(process.env.MAX_BATCH_FILES);
+  return Number.isInteger(value) && value > 0 ? value : 500;
+}
+
+const megabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Exists on every entry but is missing from JSZip's typings
+type InternalStreamEntry = JSZip.JSZipObject & { internalStream(type: "nodebuffer"): JSZip.JSZipStreamHelper<Buffer> };
+
+// Inflates a zip entry, giving up once it passes limit bytes: the sizes an archive
+// declares can't be trusted, and a small zip can unpack to gigabytes
+function inflate(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    let chunks: Buffer[] = [];
+    let size = 0;
+    // JSZip's own stream rather than nodeStream(): pausing it stops the inflating, where a
+    // destroyed Node stream is still fed the whole entry
+    const stream = (entry as InternalStreamEntry).internalStream("nodebuffer");
+    stream
+      .on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= limit) {
+          chunks.push(chunk);
+          return;
+        }
+        stream.pause();
+        chunks = [];
+        resolve(null);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks)))
+      .resume();
+  });
+}
+
+// Zip archives are unpacked into one input per audio entry; macOS resource forks and
+// anything that isn't audio (playlists, notes) are skipped. Going over a limit is a
+// FILE_TOO_LARGE AnalysisError
+export async function expandUploads(files: File[]): Promise<AudioInput[]> {
+  const perFile = maxUploadBytes();
+  const maxFiles = maxBatchFiles();
+  let remaining = maxBatchBytes();
+  const inputs: AudioInput[] = [];
+  const add = (input: AudioInput) => {
+    if (inputs.length >= maxFiles) throw new AnalysisError("FILE_TOO_LARGE", `Batches are limited to ${maxFiles} calls`);
+    remaining -= input.audio.length;
+    inputs.push(input);
+  };
+  const tooLarge = (name: string) => new AnalysisError("FILE_TOO_LARGE", `${name} is over the ${megabytes(perFile)} limit for one call`);
+  const overBatch = () => new AnalysisError("FILE_TOO_LARGE", `Batch uploads are limited to ${megabytes(maxBatchBytes())}`);
+
+  for (const file of files) {
+    const ext = path.extname(file.name).toLowerCase();
+    if (file.size > remaining) throw overBatch();
+    if (ext !== ".zip" && file.size > perFile) throw tooLarge(file.name);
+    const buffer = Buffer.from(await file.arrayBuffer());
+    if (ext !== ".zip") {
+      // Browsers and curl often send a generic type, so trust a known extension first
+      add({ audio: buffer, fileName: file.name, mimeType: AUDIO_TYPES[ext] || file.type || "application/octet-stream" });
+      continue;
+    }
+    const zip = await JSZip.loadAsync(buffer);
+    for (const entry of Object.values(zip.files)) {
+      const name = path.posix.basename(entry.name);
+      if (entry.dir || entry.name.startsWith("__MACOSX/") || name.startsWith(".") || !isAudioFile(name)) continue;
+      const audio = await inflate(entry, Math.min(perFile, remaining));
+      if (!audio) throw remaining < perFile ? overBatch() : tooLarge(name);
+      add({ audio, fileName: name, mimeType: AUDIO_TYPES[path.extname(name).toLowerCase()] });
+    }
+  }
+  return inputs;
+}
+
+export function countJobs(jobs: BatchJob[]): BatchCounts {
+  const counts: BatchCounts = { total: jobs.length, queued: 0, processing: 0, completed: 0, failed: 0 };
+  for (const job of jobs) counts[job.status]++;
+  return counts;
+}
+
+async function updateJob(batchId: string, jobId: string, patch: Partial<BatchJob>): Promise<void> {
+  await updateCollection<Batch, void>(COLLECTION, batches => ({
+    items: batches.map(b =>
+      b.id !== batchId ? b : { ...b, jobs: b.jobs.map(j => (j.id === jobId ? { ...j, ...patch } : j)) }
+    ),
+    result: undefined,
+  }));
+}
+
+async function runJob(batchId: string, jobId: string): Promise<void> {
+  const batch = (await readCollection<Batch>(COLLECTION)).find(b => b.id === batchId);
+  const job = batch?.jobs.find(j => j.id === jobId);
+  if (!batch || !job) return;
+
+  await updateJob(batchId, jobId, {
+    status: "processing",
+    attempts: job.attempts + 1,
+    error: undefined,
+    errorCode: undefined,
+    startedAt: new Date().toISOString(),
+    finishedAt: undefined,
+  });
+
+  try {
+    const audio = await fs.readFile(audioPath(batchId, jobId));
+    const analysis = await analyzeAudio(
+      { audio, fileName: job.fileName, mimeType: job.mimeType },
+      batch.options,
+      { orgId: batch.orgId, uploadedBy: batch.uploadedBy ?? "batch upload" }
+    );
+    const result = { ...analysis, transcript: undefined };
+    await updateJob(batchId, jobId, { status: "completed", result, finishedAt: new Date().toISOString() });
+    // Only failed jobs can be retried, so the audio isn't needed once a call is scored
+    await fs.rm(audioPath(batchId, jobId), { force: true });
+  } catch (error) {
+    console.error(`Batch ${batchId} job ${jobId} (${job.fileName}) failed:`, error);
+    const failure = toAnalysisError(error);
+    await updateJob(batchId, jobId, {
+      status: "failed",
+      error: failure.message,
+      errorCode: failure.code,
+      finishedAt: new Date().toISOString(),
+    });
+  }
+}
+
+function pump(): void {
+  while (queue.active < concurrency() && queue.pending.length) {
+    const { batchId, jobId } = queue.pending.shift()!;
+    queue.active++;
+    runJob(batchId, jobId)
+      .catch(error => console.error("Job runner error:", error))
+      .finally(() => {
+        queue.active--;
+        pump();
+      });
+  }
+}
+
+function enqueue(batchId: string, jobIds: string[]): void {
+  queue.pending.push(...jobIds.map(jobId => ({ batchId, jobId })));
+  pump();
+}
+
+// Jobs that were queued or mid-flight when the server stopped are picked up again
+// the first time the queue is touched after a restart
+function recover(): Promise<void> {
+  queue.recovered ??= updateCollection<Batch, { batchId: string; jobIds: string[] }[]>(COLLECTION, batches => {
+    const resumed: { batchId: string; jobIds: string[] }[] = [];
+    const items = batches.map(b => {
+      const jobIds = b.jobs.filter(j => j.status === "queued" || j.status === "processing").map(j => j.id);
+      if (!jobIds.length) return b;
+      resumed.push({ batchId: b.id, jobIds });
+      return { ...b, jobs: b.jobs.map(j => (jobIds.includes(j.id) ? { ...j, status: "queued" as const } : j)) };
+    });
+    return { items, result: resumed };
+  }).then(resumed => {
+    for (const { batchId, jobIds } of resumed) enqueue(batchId, jobIds);
+  });
+  return queue.recovered;
+}
+
+export async function createBatch(inputs: AudioInput[], options: AnalysisRequestOptions, owner: CallOwner): Promise<Batch> {
+  await recover();
+  const batch: Batch = {
+    id: randomUUID(),
+    orgId: owner.orgId,
+    uploadedBy: owner.uploadedBy,
+    options,
+    jobs: inputs.map(input => ({
+      id: randomUUID(),
+      // Dialer exports often name files after the customer's number
+      fileName: redactText(input.fileName).text,
+      mimeType: input.mimeType,
+      size: input.audio.length,
+      status: "queued",
+      attempts: 0,
+    })),
+    createdAt: new Date().toISOString(),
+  };
+
+  await fs.mkdir(dataPath("uploads", batch.id), { recursive: true });
+  await Promise.all(batch.jobs.map((job, i) => fs.writeFile(audioPath(batch.id, job.id), inputs[i].audio)));
+  await updateCollection<Batch, void>(COLLECTION, batches => ({ items: [...batches, batch], result: undefined }));
+
+  enqueue(batch.id, batch.jobs.map(j => j.id));
+  return batch;
+}
+
+export async function getBatch(orgId: string, id: string): Promise<Batch | null> {
+  await recover();
+  return (await readCollection<Batch>(COLLECTION)).find(b => b.id === id && b.orgId === orgId) ?? null;
+}
+
+export async function listBatches(orgId: string): Promise<BatchSummary[]> {
+  await recover();
+  return (await readCollection<Batch>(COLLECTION))
+    .filter(b => b.orgId === orgId)
+    .map(b => ({ id: b.id, createdAt: b.createdAt, scorecardId: b.options.scorecardId, counts: countJobs(b.jobs) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Re-queues failed jobs, all of them or only those listed. Returns null when the
+// batch doesn't exist in the organization
+export async function retryJobs(orgId: string, batchId: string, jobIds?: string[]): Promise<Batch | null> {
+  await recover();
+  const retried = await updateCollection<Batch, { batch: Batch; jobIds: string[] } | null>(COLLECTION, batches => {
+    const batch = batches.find(b => b.id === batchId && b.orgId === orgId);
+    if (!batch) return { items: batches, result: null };
+    const ids = batch.jobs
+      .filter(j => j.status === "failed" && (!jobIds || jobIds.includes(j.id)))
+      .map(j => j.id);
+    const updated: Batch = {
+      ...batch,
+      jobs: batch.jobs.map(j => (ids.includes(j.id) ? { ...j, status: "queued", error: undefined, errorCode: undefined } : j)),
+    };
+    return { items: batches.map(b => (b.id === batchId ? updated : b)), result: { batch: updated, jobIds: ids } };
+  });
+  if (!retried) return null;
+  enqueue(batchId, retried.jobIds);
+  return retried.batch;
+}
@@ -0,0 +1,58 @@
+import type { LanguagePackCode } from "./types";
+
+export type LanguageOption = "auto" | "hi" | "en" | "hi-Latn" | "hinglish";
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = ["auto", "hi", "en", "hi-Latn", "hinglish"];
+
+export function isLanguageOption(value: string): value is LanguageOption {
+  return (LANGUAGE_OPTIONS as string[]).includes(value);
+}
+
+// Frequent romanized Hindi function words vs. English ones, used to tell Latin-script
+// Hindi apart from English
+const romanHindiMarkers = new Set([
+  'hai', 'hain', 'nahi', 'nahin', 'aap', 'aapka', 'aapki', 'kya', 'main', 'mein', 'ka', 'ki', 'ke',
+  'ko', 'se', 'hum', 'ham', 'ji', 'haan', 'theek', 'thik', 'raha', 'rahi', 'kar', 'karna', 'kal', 'aaj', 'bhi',
+]);
+const englishMarkers = new Set([
+  'the', 'is', 'are', 'you', 'your', 'i', 'we', 'to', 'of', 'and', 'for', 'this', 'that', 'will',
+  'can', 'please', 'thank', 'what', 'it', 'be', 'have', 'on', 'with', 'not',
+]);
+
+export interface DetectedLanguage {
+  language: Exclude<LanguageOption, "auto">;
+  // Share of letters written in Devanagari, 0-1
+  devanagariRatio: number;
+}
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const devanagari = (text.match(/[\u0900-\u097F]/g) || []).length;
+  const latin = (text.match(/[a-zA-Z]/g) || []).length;
+  const devanagariRatio = devanagari + latin > 0 ? devanagari / (devanagari + latin) : 1;
+
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  const hindiHits = words.filter(w => romanHindiMarkers.has(w)).length;
+  const englishHits = words.filter(w => englishMarkers.has(w)).length;
+
+  if (devanagariRatio >= 0.9) return { language: "hi", devanagariRatio };
+  if (devanagariRatio >= 0.2) return { language: "hinglish", devanagariRatio };
+  if (hindiHits > englishHits) {
+    // Romanized Hindi with a fair amount of English is still best served by both packs
+    return { language: englishHits > 0 && englishHits * 3 >= hindiHits ? "hinglish" : "hi-Latn", devanagariRatio };
+  }
+  return { language: "en", devanagariRatio };
+}
+
+// Code-mixed calls need every pack: English phrases appear in both scripts
+export function packsFor(language: Exclude<LanguageOption, "auto">): LanguagePackCode[] {
+  switch (language) {
+    case "hi":
+      return ["hi"];
+    case "en":
+      return ["en"];
+    case "hi-Latn":
+      return ["hi-Latn", "en"];
+    case "hinglish":
+      return ["hi", "hi-Latn", "en"];
+  }
+}
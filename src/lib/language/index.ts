@@ -0,0 +1,66 @@
+import { detectLanguage, packsFor, type LanguageOption } from "./detect";
+import { english } from "./packs/en";
+import { hindi } from "./packs/hi";
+import { romanizedHindi } from "./packs/hi-latn";
+import type { LanguagePack, LanguagePackCode, Lexicon } from "./types";
+
+export { detectLanguage, isLanguageOption, LANGUAGE_OPTIONS, type LanguageOption } from "./detect";
+export { findKeywords, hasKeyword, matchKeywords, normalizeText, phraseTokens, tokenize, type KeywordMatch } from "./match";
+export type { DatePeriod, LanguagePack, LanguagePackCode, Lexicon } from "./types";
+
+export const languagePacks: Record<LanguagePackCode, LanguagePack> = {
+  "hi": hindi,
+  "hi-Latn": romanizedHindi,
+  "en": english,
+};
+
+// Phrase lists are concatenated; keyed lists (topics, reasons) are concatenated per key,
+// and keyed values (number words, dates) keep the first pack's value
+export function mergeLexicons(codes: LanguagePackCode[]): Lexicon {
+  const lexicons = codes.map(code => languagePacks[code].lexicon);
+  const merged = {} as Record<keyof Lexicon, unknown>;
+  for (const key of Object.keys(hindi.lexicon) as (keyof Lexicon)[]) {
+    if (Array.isArray(hindi.lexicon[key])) {
+      merged[key] = [...new Set(lexicons.flatMap(lexicon => lexicon[key] as string[]))];
+      continue;
+    }
+    const entries: Record<string, unknown> = {};
+    for (const lexicon of lexicons) {
+      for (const [name, value] of Object.entries(lexicon[key] as Record<string, unknown>)) {
+        if (Array.isArray(value)) {
+          entries[name] = [...new Set([...((entries[name] as string[]) ?? []), ...value])];
+        } else {
+          entries[name] ??= value;
+        }
+      }
+    }
+    merged[key] = entries;
+  }
+  return merged as Lexicon;
+}
+
+export interface LanguageInfo {
+  requested: LanguageOption;
+  detected: Exclude<LanguageOption, "auto">;
+  packs: LanguagePackCode[];
+}
+
+export function resolveLanguage(requested: LanguageOption, text: string): { info: LanguageInfo; lexicon: Lexicon } {
+  const detected = requested === "auto" ? detectLanguage(text).language : requested;
+  const packs = packsFor(detected);
+  return { info: { requested, detected, packs }, lexicon: mergeLexicons(packs) };
+}
+
+// Language to ask the transcription provider for; undefined lets it auto-detect
+export function providerLanguage(option: LanguageOption): string | undefined {
+  switch (option) {
+    case "hi":
+    case "hinglish":
+    case "hi-Latn":
+      return "hi";
+    case "en":
+      return "en";
+    default:
+      return undefined;
+  }
+}
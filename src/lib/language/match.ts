@@ -0,0 +1,155 @@
+import { phoneticTokens } from "./transliterate";
+
+// The one place text is compared with phrase lists. Text and phrases are normalized,
+// transliterated and folded to the same token form, phrases only match whole tokens in
+// order, ASR misspellings of longer words are tolerated, and a phrase under a negation
+// ("रिकॉर्ड नहीं हो रहा", "no problem") doesn't count
+
+export interface KeywordMatch {
+  keyword: string;
+  // Token positions [start, end) in the normalized text
+  start: number;
+  end: number;
+  // A negation word governs the phrase, so it was said not to be the case
+  negated: boolean;
+  // At least one word only matched within the edit-distance tolerance
+  fuzzy: boolean;
+}
+
+interface TokenizedText {
+  tokens: string[];
+  // Clause index per token; negation doesn't reach across clauses
+  clauses: number[];
+}
+
+// Folded forms of the negation words, in any script: नहीं/nahi(n), मत/mat, बिना/bina,
+// not, no, never, without, and the "t" that "n't" leaves after tokenizing. English puts
+// them before what they negate; Hindi mostly after, so only Hindi ones are looked for there
+const NEGATIONS_BEFORE = new Set(["nahi", "nahin", "nai", "mat", "bina", "not", "no", "never", "nothing", "without", "kanot", "t"]);
+const NEGATIONS_AFTER = new Set(["nahi", "nahin", "nai", "mat"]);
+const NEGATION_BEFORE = 3;
+const NEGATION_AFTER = 2;
+
+// Negation doesn't reach past punctuation or a contrasting conjunction, which starts a
+// new clause but is still a word that can be matched
+const CLAUSE_BREAK = /[.?!,;:\u0964\u0965]+/;
+const CLAUSE_WORDS = new Set(["but", "hovever", "lekin", "magar"]);
+
+// Words this long may be one edit off (two from 8 letters), which absorbs most ASR
+// misspellings without letting short words collide
+const FUZZY_MIN_LENGTH = 5;
+const FUZZY_LONG_LENGTH = 8;
+
+// Cache folded keyword tokens: lexicons are static and matched against every utterance
+const keywordTokens = new Map<string, string[]>();
+// Each utterance is matched against many lists in a row, so its tokens are kept too
+const TEXT_CACHE_SIZE = 500;
+const textTokens = new Map<string, TokenizedText>();
+
+// Unicode variants ASR and typists produce for the same word: composed vs decomposed
+// forms, zero-width joiners, nukta letters (ज़/ज, ड़/ड), chandrabindu vs anusvara and
+// curly apostrophes
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/[\u200B-\u200D\uFEFF]/g, "")
+    .replace(/\u093C/g, "")
+    .replace(/\u0901/g, "\u0902")
+    .replace(/[\u2018\u2019\u02BC]/g, "'")
+    .toLowerCase();
+}
+
+// Folded tokens of a phrase, as the matcher compares them
+export function phraseTokens(keyword: string): string[] {
+  let tokens = keywordTokens.get(keyword);
+  if (!tokens) {
+    tokens = phoneticTokens(normalizeText(keyword));
+    keywordTokens.set(keyword, tokens);
+  }
+  return tokens;
+}
+
+export function tokenize(text: string): TokenizedText {
+  const cached = textTokens.get(text);
+  if (cached) return cached;
+  const tokenized: TokenizedText = { tokens: [], clauses: [] };
+  let clause = 0;
+  for (const part of normalizeText(text).split(CLAUSE_BREAK)) {
+    clause++;
+    for (const token of phoneticTokens(part)) {
+      if (CLAUSE_WORDS.has(token) && tokenized.tokens.length) clause++;
+      tokenized.tokens.push(token);
+      tokenized.clauses.push(clause);
+    }
+  }
+  if (textTokens.size >= TEXT_CACHE_SIZE) textTokens.delete(textTokens.keys().next().value!);
+  textTokens.set(text, tokenized);
+  return tokenized;
+}
+
+function withinDistance(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+}
+
+// "exact", "fuzzy", or null when the words differ
+function compareToken(word: string, expected: string): "exact" | "fuzzy" | null {
+  if (word === expected) return "exact";
+  if (expected.length < FUZZY_MIN_LENGTH || word.length < FUZZY_MIN_LENGTH || /\d/.test(word)) return null;
+  return withinDistance(word, expected, expected.length >= FUZZY_LONG_LENGTH ? 2 : 1) ? "fuzzy" : null;
+}
+
+function isNegated({ tokens, clauses }: TokenizedText, start: number, end: number): boolean {
+  const clause = clauses[start];
+  const inClause = (i: number) => i >= 0 && i < tokens.length && clauses[i] === clause;
+  for (let i = start - 1; i >= start - NEGATION_BEFORE && inClause(i); i--) {
+    if (NEGATIONS_BEFORE.has(tokens[i])) return true;
+  }
+  for (let i = end; i < end + NEGATION_AFTER && inClause(i); i++) {
+    if (NEGATIONS_AFTER.has(tokens[i])) return true;
+  }
+  return false;
+}
+
+// Every occurrence of each keyword as a whole-word phrase within one clause, negated or not
+export function findKeywords(text: string, keywords: string[]): KeywordMatch[] {
+  const tokenized = tokenize(text);
+  const { tokens, clauses } = tokenized;
+  const matches: KeywordMatch[] = [];
+  for (const keyword of keywords) {
+    const needle = phraseTokens(keyword);
+    if (!needle.length) continue;
+    outer: for (let start = 0; start + needle.length <= tokens.length; start++) {
+      let fuzzy = false;
+      for (let j = 0; j < needle.length; j++) {
+        const i = start + j;
+        const result = clauses[i] === clauses[start] ? compareToken(tokens[i], needle[j]) : null;
+        if (!result) continue outer;
+        fuzzy ||= result === "fuzzy";
+      }
+      const end = start + needle.length;
+      matches.push({ keyword, start, end, negated: isNegated(tokenized, start, end), fuzzy });
+    }
+  }
+  return matches;
+}
+
+// The keywords said without a negation, in list order. This is what every analyzer, rule
+// and speaker heuristic uses
+export function matchKeywords(text: string, keywords: string[]): string[] {
+  const said = new Set(findKeywords(text, keywords).filter(m => !m.negated).map(m => m.keyword));
+  return keywords.filter(keyword => said.has(keyword));
+}
+
+export function hasKeyword(text: string, keywords: string[]): boolean {
+  return matchKeywords(text, keywords).length > 0;
+}
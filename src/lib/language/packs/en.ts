@@ -0,0 +1,56 @@
+import type { LanguagePack } from "../types";
+
+export const english: LanguagePack = {
+  code: "en",
+  name: "English",
+  script: "Latn",
+  lexicon: {
+    greeting: ['hello', 'hi', 'good morning', 'good afternoon', 'good evening', 'welcome'],
+    urgency: ['urgent', 'immediately', 'asap', 'critical', 'important', 'deadline', 'due date', 'payment due', 'late payment', 'overdue'],
+    questionWords: ['when', 'why', 'how'],
+    timeReferences: ['today', 'tomorrow', 'this week', 'this month'],
+    objection: ["can't pay", 'cannot pay', 'not possible', 'too expensive', "can't afford", 'difficult', 'problem', 'worried', 'issue'],
+    rebuttal: ['understand', 'but', 'however', 'alternative', 'solution', 'help', 'assist', 'support', 'offer', 'option', 'suggest'],
+    disclosure: ['recording', 'recorded', 'monitoring', 'call is being recorded', 'for quality purposes', 'for training purposes'],
+    disposition: ['category', 'disposition', 'classification', 'reason', 'purpose', 'resolution'],
+    dispositionReason: ['because', 'reason', 'due to'],
+    closing: ['thank you', 'thanks', 'grateful', 'goodbye', 'bye', 'have a good day', 'take care', 'have a nice day'],
+    politeClosing: ['thank you', 'thanks'],
+    identification: ['name', 'account', 'customer', 'reference', 'account number', 'customer id', 'identity', 'verify'],
+    abusive: ['abuse', 'threat', 'rude', 'stupid', 'idiot', 'useless', 'terrible', 'worst', 'shut up'],
+    objectionTopics: {
+      penalty: ['penalty', 'fine', 'late fee'],
+      payment: ['payment', 'emi', 'pay'],
+      time: ['time'],
+    },
+    agentCues: [
+      'calling from', 'calling on behalf of', 'recorded', 'quality purposes', 'your account', 'your emi',
+      'due date', 'overdue', 'speaking to'
+    ],
+    hold: ['hold', 'one moment', 'just a moment', 'one minute', 'stay on the line'],
+    promiseToPay: ['will pay', "i'll pay", 'will make the payment', 'will deposit', 'will transfer', 'promise to pay'],
+    commitment: ['i will', "i'll", 'will do it', 'will arrange', 'will manage'],
+    refusal: ["won't pay", 'will not pay', 'not going to pay', 'refuse to pay', "can't pay", 'cannot pay', "don't have money", 'no money'],
+    dispute: ['already paid', 'not my loan', 'never took', 'wrong amount', 'wrong charge', 'incorrect charge', 'dispute', 'complaint', 'fraud'],
+    callback: ['call back', 'call me later', 'call later', 'busy right now', 'talk later', 'another time'],
+    refusalReasons: {
+      'salary delay': ['salary', 'paycheck'],
+      'job loss': ['lost my job', 'unemployed', 'laid off'],
+      medical: ['hospital', 'medical', 'sick', 'illness'],
+      'business loss': ['business loss', 'loss in business'],
+      penalty: ['penalty', 'late fee'],
+    },
+    currency: ['rupees', 'rupee', 'rs', 'inr'],
+    numberWords: {
+      one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+      eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+      twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+      hundred: 100, thousand: 1000, lakh: 100000, lakhs: 100000, crore: 10000000, million: 1000000,
+    },
+    dayOfMonth: ['date'],
+    dayCount: ['days', 'day'],
+    relativeDays: { today: 0, tonight: 0, tomorrow: 1, 'day after tomorrow': 2 },
+    weekdays: { sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6 },
+    periods: { 'this week': 'thisWeek', 'next week': 'nextWeek', 'this month': 'thisMonth', 'next month': 'nextMonth', 'month end': 'thisMonth' },
+  },
+};
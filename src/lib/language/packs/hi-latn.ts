@@ -0,0 +1,68 @@
+import type { LanguagePack } from "../types";
+
+// Hindi written in Latin script, as romanizing ASR models and chat-style transcripts produce it.
+// Spelling variants (dhanyavaad/dhanyawad) are handled by transliteration-aware matching
+export const romanizedHindi: LanguagePack = {
+  code: "hi-Latn",
+  name: "Hindi (Romanized)",
+  script: "Latn",
+  lexicon: {
+    greeting: ['namaste', 'namaskar', 'hello', 'swagat hai'],
+    urgency: ['zaroori', 'turant', 'jaldi', 'mahatvapurn', 'deadline', 'due date', 'payment due', 'late payment', 'overdue'],
+    questionWords: ['kab', 'kyon', 'kaise'],
+    timeReferences: ['aaj', 'kal', 'is hafte', 'is mahine'],
+    objection: ['nahi kar sakte', 'nahi hoga', 'sambhav nahi', 'bahut mehenga', 'afford nahi', 'mushkil', 'samasya', 'chinta', 'pareshan'],
+    rebuttal: ['samajhte hain', 'lekin', 'parantu', 'vaikalpik', 'samadhan', 'madad', 'sahayata', 'support', 'offer', 'vikalp', 'sujhav'],
+    disclosure: ['recording', 'record', 'tape', 'monitoring', 'call record ho raha hai', 'quality ke liye', 'training ke liye'],
+    disposition: ['shreni', 'prakar', 'karan', 'uddeshya', 'disposition', 'vargikaran', 'samadhan'],
+    dispositionReason: ['kyonki', 'karan', 'vajah'],
+    closing: ['dhanyavaad', 'shukriya', 'aabhar', 'alvida', 'bye', 'shubh din', 'khayal rakhna', 'accha din'],
+    politeClosing: ['dhanyavaad', 'shukriya'],
+    identification: ['naam', 'id', 'account', 'grahak', 'reference', 'account number', 'grahak id', 'pehchan'],
+    abusive: ['gaali', 'dhamki', 'gussa', 'abhadra', 'bevakoof', 'bekaar', 'bura', 'bhayanak', 'sabse kharab'],
+    objectionTopics: {
+      penalty: ['penalty', 'jurmana'],
+      payment: ['payment', 'bhugtan'],
+      time: ['samay', 'time'],
+    },
+    agentCues: [
+      'bol raha hoon', 'bol rahi hoon', 'call kar raha', 'call kar rahi', 'record', 'monitoring',
+      'quality ke liye', 'aapka account', 'aapki emi', 'bank ki taraf se', 'company ki taraf se'
+    ],
+    hold: ['hold', 'ek minute', 'ek second', 'rukiye', 'line par rahiye'],
+    promiseToPay: [
+      'jama kar dunga', 'jama kar dungi', 'jama karunga', 'jama karungi', 'jama kar denge', 'bhar dunga', 'bhar dungi',
+      'payment kar dunga', 'payment kar dungi', 'payment karunga', 'payment karungi', 'payment kar denge',
+      'pay kar dunga', 'pay kar dungi', 'paise de dunga', 'paise de dungi'
+    ],
+    commitment: ['kar dunga', 'kar dungi', 'kar denge', 'de dunga', 'de dungi', 'karunga', 'karungi'],
+    refusal: [
+      'nahi dunga', 'nahi dungi', 'nahi bharunga', 'nahi bharungi', 'payment nahi karunga', 'payment nahi karungi',
+      'nahi kar sakta', 'nahi kar sakti', 'nahi kar sakte', 'paise nahi hain'
+    ],
+    dispute: [
+      'pehle hi jama kar diya', 'pehle hi payment kar diya', 'payment kar chuka', 'payment kar chuki', 'loan nahi liya',
+      'mera loan nahi', 'galat charge', 'galat amount', 'shikayat', 'dhokha'
+    ],
+    callback: ['baad mein call', 'baad mein phone', 'phir se call', 'call back', 'abhi busy', 'baad mein baat'],
+    refusalReasons: {
+      'salary delay': ['salary', 'tankhwah', 'vetan'],
+      'job loss': ['naukri chali gayi', 'naukri chhut gayi', 'berozgar'],
+      medical: ['hospital', 'bimar', 'ilaj'],
+      'business loss': ['dhandha manda', 'business mein nuksan', 'nuksan'],
+      penalty: ['penalty', 'jurmana'],
+    },
+    currency: ['rupaye', 'rupay', 'rupees', 'rs'],
+    numberWords: {
+      ek: 1, do: 2, teen: 3, char: 4, paanch: 5, chhe: 6, chah: 6, saat: 7, aath: 8, nau: 9, das: 10,
+      gyarah: 11, barah: 12, pandrah: 15, bees: 20, pachees: 25, tees: 30, chalees: 40, pachaas: 50,
+      saath: 60, sattar: 70, assi: 80, nabbe: 90, sau: 100, hazaar: 1000, lakh: 100000, crore: 10000000, karod: 10000000,
+      dedh: 1.5, dhai: 2.5,
+    },
+    dayOfMonth: ['tarikh', 'date'],
+    dayCount: ['din', 'dino', 'dinon', 'days'],
+    relativeDays: { aaj: 0, kal: 1, parson: 2 },
+    weekdays: { ravivar: 0, itvaar: 0, somvar: 1, mangalvar: 2, budhvar: 3, guruvar: 4, shukravar: 5, shanivar: 6 },
+    periods: { 'is hafte': 'thisWeek', 'agle hafte': 'nextWeek', 'is mahine': 'thisMonth', 'agle mahine': 'nextMonth' },
+  },
+};
@@ -0,0 +1,69 @@
+import type { LanguagePack } from "../types";
+
+// Hindi in Devanagari, including English loanwords as Deepgram's hi model spells them
+export const hindi: LanguagePack = {
+  code: "hi",
+  name: "Hindi (Devanagari)",
+  script: "Deva",
+  lexicon: {
+    greeting: ['नमस्ते', 'हैलो', 'गुड मॉर्निंग', 'गुड आफ्टरनून', 'गुड इवनिंग', 'स्वागत है'],
+    urgency: ['जरूरी', 'तुरंत', 'असप', 'क्रिटिकल', 'महत्वपूर्ण', 'डेडलाइन', 'ड्यू डेट', 'पेमेंट ड्यू', 'लेट पेमेंट', 'ओवरड्यू'],
+    questionWords: ['कब', 'क्यों', 'कैसे'],
+    timeReferences: ['आज', 'कल', 'इस हफ्ते', 'इस महीने'],
+    objection: ['नहीं कर सकते', 'नहीं होगा', 'संभव नहीं', 'बहुत महंगा', 'अफोर्ड नहीं', 'मुश्किल', 'समस्या', 'चिंता', 'परेशान'],
+    rebuttal: ['समझते हैं', 'लेकिन', 'परंतु', 'वैकल्पिक', 'समाधान', 'मदद', 'सहायता', 'सपोर्ट', 'ऑफर', 'विकल्प', 'सुझाव'],
+    disclosure: ['रिकॉर्डिंग', 'रिकॉर्ड', 'टेप', 'मॉनिटरिंग', 'कॉल रिकॉर्ड हो रहा है', 'क्वालिटी के लिए', 'ट्रेनिंग के लिए'],
+    disposition: ['श्रेणी', 'प्रकार', 'कारण', 'उद्देश्य', 'डिस्पोजिशन', 'वर्गीकरण', 'समाधान'],
+    dispositionReason: ['क्योंकि', 'कारण', 'वजह'],
+    closing: ['धन्यवाद', 'शुक्रिया', 'आभार', 'अलविदा', 'बाय', 'शुभ दिन', 'ख्याल रखना', 'अच्छा दिन'],
+    politeClosing: ['धन्यवाद', 'शुक्रिया'],
+    identification: ['नाम', 'आईडी', 'अकाउंट', 'ग्राहक', 'रेफरेंस', 'अकाउंट नंबर', 'ग्राहक आईडी', 'पहचान'],
+    abusive: ['गाली', 'धमकी', 'गुस्सा', 'अभद्र', 'बेवकूफ', 'बेकार', 'बुरा', 'भयानक', 'सबसे खराब'],
+    objectionTopics: {
+      penalty: ['पेनल्टी', 'जुर्माना'],
+      payment: ['पेमेंट', 'भुगतान'],
+      time: ['समय', 'टाइम'],
+    },
+    agentCues: [
+      'नमस्ते', 'बोल रहा हूँ', 'बोल रही हूँ', 'कॉल कर रहा', 'कॉल कर रही', 'रिकॉर्ड', 'मॉनिटरिंग',
+      'क्वालिटी के लिए', 'आपका अकाउंट', 'आपकी ईएमआई', 'ड्यू डेट', 'पेमेंट ड्यू', 'ओवरड्यू', 'बैंक की तरफ से', 'कंपनी की तरफ से'
+    ],
+    hold: ['होल्ड', 'एक मिनट', 'एक सेकंड', 'रुकिए', 'लाइन पर रहिए'],
+    promiseToPay: [
+      'जमा कर दूंगा', 'जमा कर दूंगी', 'जमा करूंगा', 'जमा करूंगी', 'जमा कर देंगे', 'भर दूंगा', 'भर दूंगी', 'भर देंगे',
+      'पेमेंट कर दूंगा', 'पेमेंट कर दूंगी', 'पेमेंट करूंगा', 'पेमेंट करूंगी', 'पेमेंट कर देंगे', 'भुगतान कर दूंगा',
+      'भुगतान कर दूंगी', 'पैसे दे दूंगा', 'पैसे दे दूंगी'
+    ],
+    commitment: ['कर दूंगा', 'कर दूंगी', 'कर देंगे', 'दे दूंगा', 'दे दूंगी', 'करूंगा', 'करूंगी'],
+    refusal: [
+      'नहीं दूंगा', 'नहीं दूंगी', 'नहीं भरूंगा', 'नहीं भरूंगी', 'पेमेंट नहीं करूंगा', 'पेमेंट नहीं करूंगी',
+      'नहीं कर सकता', 'नहीं कर सकती', 'नहीं कर सकते', 'पैसे नहीं हैं'
+    ],
+    dispute: [
+      'पहले ही जमा कर दिया', 'पहले ही पेमेंट कर दिया', 'पेमेंट कर चुका', 'पेमेंट कर चुकी', 'लोन नहीं लिया',
+      'मेरा लोन नहीं', 'गलत चार्ज', 'गलत अमाउंट', 'शिकायत', 'धोखाधड़ी'
+    ],
+    callback: ['बाद में कॉल', 'बाद में फोन', 'फिर से कॉल', 'कॉल बैक', 'अभी बिजी', 'अभी व्यस्त', 'बाद में बात'],
+    refusalReasons: {
+      'salary delay': ['सैलरी', 'तनख्वाह', 'वेतन'],
+      'job loss': ['नौकरी चली गई', 'नौकरी छूट गई', 'बेरोजगार'],
+      medical: ['अस्पताल', 'बीमार', 'इलाज'],
+      'business loss': ['धंधा मंदा', 'बिजनेस में नुकसान', 'नुकसान'],
+      penalty: ['पेनल्टी', 'जुर्माना'],
+    },
+    currency: ['रुपये', 'रुपए', 'रुपया', 'रु'],
+    numberWords: {
+      'एक': 1, 'दो': 2, 'तीन': 3, 'चार': 4, 'पांच': 5, 'छह': 6, 'सात': 7, 'आठ': 8, 'नौ': 9, 'दस': 10,
+      'ग्यारह': 11, 'बारह': 12, 'पंद्रह': 15, 'बीस': 20, 'पच्चीस': 25, 'तीस': 30, 'चालीस': 40, 'पचास': 50,
+      'साठ': 60, 'सत्तर': 70, 'अस्सी': 80, 'नब्बे': 90, 'सौ': 100, 'हजार': 1000, 'लाख': 100000, 'करोड़': 10000000,
+      'डेढ़': 1.5, 'ढाई': 2.5,
+    },
+    dayOfMonth: ['तारीख'],
+    dayCount: ['दिन', 'दिनों'],
+    relativeDays: { 'आज': 0, 'कल': 1, 'परसों': 2 },
+    weekdays: {
+      'रविवार': 0, 'इतवार': 0, 'सोमवार': 1, 'मंगलवार': 2, 'बुधवार': 3, 'गुरुवार': 4, 'बृहस्पतिवार': 4, 'शुक्रवार': 5, 'शनिवार': 6,
+    },
+    periods: { 'इस हफ्ते': 'thisWeek', 'इस सप्ताह': 'thisWeek', 'अगले हफ्ते': 'nextWeek', 'अगले सप्ताह': 'nextWeek', 'इस महीने': 'thisMonth', 'अगले महीने': 'nextMonth' },
+  },
+};
@@ -0,0 +1,146 @@
+// Rough Devanagari -> Latin transliteration plus a phonetic fold, so that "धन्यवाद",
+// "dhanyavaad" and "dhanyawad" all reduce to the same key. It is deliberately lossy:
+// the goal is matching ASR output across scripts, not a reversible romanization.
+
+const independentVowels: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ii', 'उ': 'u', 'ऊ': 'uu', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o', 'ऍ': 'e',
+};
+
+const matras: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ii', 'ु': 'u', 'ू': 'uu', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'e',
+};
+
+const consonants: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+  'क़': 'q', 'ख़': 'kh', 'ग़': 'g', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y',
+};
+
+// Nukta letters (क़, ज़ ...) are composition exclusions, so NFC keeps them as base + nukta
+const consonantMap = new Map(Object.entries(consonants).map(([k, v]) => [k.normalize("NFC"), v]));
+
+const VIRAMA = '्';
+const NUKTA = '़';
+const nasals = new Set(['ं', 'ँ']);
+const VISARGA = 'ः';
+
+interface Syllable {
+  consonant: string;
+  vowel: string;
+  // Vowel is the implicit schwa rather than a written matra
+  inherent: boolean;
+  nasal: boolean;
+}
+
+export function hasDevanagari(text: string): boolean {
+  return /[\u0900-\u097F]/.test(text);
+}
+
+function transliterateWord(word: string): string {
+  const chars = Array.from(word.normalize("NFC"));
+  const syllables: Syllable[] = [];
+  let out = "";
+
+  const flush = () => {
+    // Schwa deletion, right to left: an inherent 'a' between two voiced syllables is
+    // usually silent (समझते -> samajhte), and a word-final one always is
+    for (let i = syllables.length - 1; i >= 0; i--) {
+      const s = syllables[i];
+      if (!s.inherent || s.nasal || i === 0) continue;
+      const isLast = i === syllables.length - 1;
+      const prevVoiced = syllables[i - 1].vowel !== "";
+      const nextVoiced = !isLast && syllables[i + 1].vowel !== "";
+      if (isLast || (prevVoiced && nextVoiced)) s.vowel = "";
+    }
+    out += syllables.map(s => s.consonant + s.vowel + (s.nasal ? "n" : "")).join("");
+    syllables.length = 0;
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const latin = (chars[i + 1] === NUKTA && consonantMap.get(ch + NUKTA)) || consonantMap.get(ch);
+    if (latin !== undefined) {
+      if (chars[i + 1] === NUKTA) i++;
+      const next = chars[i + 1];
+      const syllable: Syllable = { consonant: latin, vowel: "a", inherent: true, nasal: false };
+      if (next === VIRAMA) {
+        syllable.vowel = "";
+        syllable.inherent = false;
+        i++;
+      } else if (matras[next] !== undefined) {
+        syllable.vowel = matras[next];
+        syllable.inherent = false;
+        i++;
+      }
+      if (nasals.has(chars[i + 1])) {
+        syllable.nasal = true;
+        i++;
+      }
+      syllables.push(syllable);
+    } else if (independentVowels[ch] !== undefined) {
+      const syllable: Syllable = { consonant: "", vowel: independentVowels[ch], inherent: false, nasal: false };
+      if (nasals.has(chars[i + 1])) {
+        syllable.nasal = true;
+        i++;
+      }
+      syllables.push(syllable);
+    } else if (nasals.has(ch)) {
+      const last = syllables[syllables.length - 1];
+      if (last) last.nasal = true;
+    } else if (ch === VISARGA) {
+      flush();
+      out += "h";
+    } else if (ch >= '०' && ch <= '९') {
+      flush();
+      out += String(ch.charCodeAt(0) - '०'.charCodeAt(0));
+    } else {
+      flush();
+      out += ch;
+    }
+  }
+  flush();
+  return out;
+}
+
+export function toLatin(text: string): string {
+  if (!hasDevanagari(text)) return text;
+  return text.split(/(\s+)/).map(part => (/\s/.test(part) ? part : transliterateWord(part))).join("");
+}
+
+// Collapse the spelling variation common in romanized Hindi: long vowels, doubled
+// letters, w/v, z/j, ph/f, c/k, n/m before b/p, nasalized final vowels and the final schwa
+export function foldToken(token: string): string {
+  // Numbers and ordinals (5000, 22nd) are kept as said
+  if (/\d/.test(token)) return token;
+  let t = token.replace(/cch/g, "ch").replace(/chh/g, "ch").replace(/(ch)+/g, "ch");
+  t = t.replace(/ph/g, "f").replace(/w/g, "v").replace(/z/g, "j").replace(/q/g, "k").replace(/x/g, "ks");
+  t = t.replace(/ck/g, "k").replace(/c(?!h)/g, "k");
+  // An anusvara before b/p is spoken m (संभव, sambhav)
+  t = t.replace(/n(?=[bp])/g, "m");
+  // Nasalized long final vowels (नहीं -> nahiin) are usually romanized without the n
+  t = t.replace(/([aiu])\1n$/, "$1$1");
+  t = t.replace(/ee/g, "i").replace(/oo/g, "u").replace(/ii/g, "i").replace(/uu/g, "u").replace(/aa/g, "a");
+  t = t.replace(/(.)\1+/g, "$1");
+  if (t.length > 2) t = t.replace(/a$/, "");
+  return t;
+}
+
+// Script-independent token sequence used for cross-script comparison
+export function phoneticTokens(text: string): string[] {
+  return toLatin(text)
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .map(foldToken);
+}
@@ -0,0 +1,55 @@
+// Every phrase list the analyzers, observations and speaker heuristics look for
+export interface Lexicon {
+  greeting: string[];
+  urgency: string[];
+  questionWords: string[];
+  timeReferences: string[];
+  objection: string[];
+  rebuttal: string[];
+  disclosure: string[];
+  disposition: string[];
+  dispositionReason: string[];
+  closing: string[];
+  // The subset of closing phrases that actually thank the customer
+  politeClosing: string[];
+  identification: string[];
+  abusive: string[];
+  // Objection subjects reported in the observation, e.g. penalty or payment
+  objectionTopics: Record<string, string[]>;
+  agentCues: string[];
+  // The agent putting the customer on hold
+  hold: string[];
+  // Call outcome: what the customer commits to, refuses or disputes
+  promiseToPay: string[];
+  // Generic "I'll do it", a promise only alongside a date or amount
+  commitment: string[];
+  refusal: string[];
+  dispute: string[];
+  callback: string[];
+  // Why the customer can't pay (as due), reported with the outcome
+  refusalReasons: Record<string, string[]>;
+  // Amounts and dates: currency words, spelled-out numbers (value per word), the word
+  // after a number that makes it a day of the month or a count of days from the call
+  // ("10 दिन में"), and dates relative to the call
+  currency: string[];
+  numberWords: Record<string, number>;
+  dayOfMonth: string[];
+  dayCount: string[];
+  // Days after the call
+  relativeDays: Record<string, number>;
+  // 0 is Sunday
+  weekdays: Record<string, number>;
+  periods: Record<string, DatePeriod>;
+}
+
+// A promise "this week" or "this month" is due by the end of it
+export type DatePeriod = "thisWeek" | "nextWeek" | "thisMonth" | "nextMonth";
+
+export type LanguagePackCode = "hi" | "hi-Latn" | "en";
+
+export interface LanguagePack {
+  code: LanguagePackCode;
+  name: string;
+  script: "Deva" | "Latn";
+  lexicon: Lexicon;
+}
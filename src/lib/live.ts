@@ -0,0 +1,468 @@
+import { randomUUID } from "crypto";
+import { scoreParameters, type ParameterDetail } from "./analyzers";
+import { scoreAndSave, type AnalysisRequestOptions } from "./analysis";
+import type { CallOwner } from "./calls";
+import { measureDynamics } from "./dynamics";
+import { AnalysisError } from "./errors";
+import { matchKeywords, providerLanguage, resolveLanguage } from "./language";
+import { describeParameters, type ResultParameter } from "./pipeline";
+import { redactText, type PiiCounts, type PiiType } from "./redaction";
+import { builtInRules, evaluateRule, type MentionRule } from "./rules";
+import type { Scorecard } from "./scorecards";
+import { summarizeScores, type ScoreSummary } from "./scoring";
+import { assignSpeakerRoles } from "./speakers";
+import { createReplay, getTranscriptionProvider, loadFixtureFor, type LiveTranscription } from "./transcription";
+import type { NormalizedTranscript, Sentiment, Utterance } from "./types";
+
+// audio: chunks are transcribed by the provider as they arrive. transcript: the dialer or
+// its own ASR posts utterances. simulation: a recorded transcript is replayed in real time
+export type LiveSource = "audio" | "transcript" | "simulation";
+export const LIVE_SOURCES: LiveSource[] = ["audio", "transcript", "simulation"];
+
+export type LiveStatus = "live" | "ending" | "ended";
+
+export type AlertRule = "tapeDisclosureMissing" | "abusiveLanguage";
+
+export interface LiveAlert {
+  id: string;
+  rule: AlertRule;
+  severity: "critical" | "warning";
+  message: string;
+  // Seconds into the call
+  at: number;
+  text?: string;
+}
+
+// Keyword scores over what has been said so far
+export interface LiveScore {
+  scores: Record<string, number>;
+  summary: ScoreSummary;
+  details: Record<string, ParameterDetail>;
+  parameters: ResultParameter[];
+}
+
+// A call in progress as a supervisor sees it. Text is PII-masked like a saved call
+export interface LiveSnapshot {
+  id: string;
+  source: LiveSource;
+  status: LiveStatus;
+  agent: string | null;
+  team: string | null;
+  campaign: string | null;
+  startedBy: string;
+  startedAt: string;
+  scorecard: { id: string; version: number; name: string };
+  // Seconds of the call heard so far
+  elapsed: number;
+  utterances: Utterance[];
+  // The utterance being spoken, as far as it has been transcribed
+  interim: Utterance | null;
+  alerts: LiveAlert[];
+  score: LiveScore;
+  // The saved call, once the call has ended
+  callId: string | null;
+  error?: string;
+}
+
+export type LiveSummary = Omit<LiveSnapshot, "utterances" | "interim" | "score"> & { percentage: number; grade: string };
+
+export type LiveEvent =
+  | { type: "snapshot"; snapshot: LiveSnapshot }
+  | { type: "utterance"; utterance: Utterance; final: boolean; elapsed: number }
+  | { type: "alert"; alert: LiveAlert }
+  | { type: "score"; score: LiveScore }
+  | { type: "ended"; callId: string | null; error?: string };
+
+// An utterance posted by a transcript source
+export interface LiveUtteranceInput {
+  transcript: string;
+  start: number;
+  end: number;
+  speaker?: number;
+  channel?: number;
+  sentiment?: string;
+  sentiment_score?: number;
+  // Interim results are replaced by the next result; defaults to final
+  final?: boolean;
+}
+
+export interface LiveStart {
+  source: LiveSource;
+  owner: CallOwner;
+  options: AnalysisRequestOptions;
+  scorecard: Scorecard;
+  // Recording replayed by simulations and the fixture provider
+  fixture?: string;
+  // Simulation playback rate
+  speed?: number;
+}
+
+interface LiveSession {
+  snapshot: LiveSnapshot;
+  owner: CallOwner;
+  options: AnalysisRequestOptions;
+  scorecard: Scorecard;
+  provider: string;
+  // Final utterances as received (masked), before speaker roles are assigned, and their
+  // clear text for the saved call's outcome
+  heard: Utterance[];
+  heardClear: string[];
+  // The utterance still being spoken, masked, and as received so finish() can ingest it
+  interim: Utterance | null;
+  interimClear: Utterance | null;
+  redactions: PiiCounts;
+  raised: Set<string>;
+  listeners: Set<(event: LiveEvent) => void>;
+  transcription: LiveTranscription | null;
+  simulation: NodeJS.Timeout | null;
+  idle: NodeJS.Timeout | null;
+}
+
+// Sessions are in memory and, like the batch queue, hang off globalThis so every route
+// bundle and hot reload shares them. A restart ends them without saving
+interface LiveState {
+  sessions: Map<string, LiveSession>;
+}
+const state: LiveState = ((globalThis as { __liveSessions?: LiveState }).__liveSessions ??= { sessions: new Map() });
+
+// A call with no audio or transcript for this long is ended and saved
+const idleMs = () => Number(process.env.LIVE_IDLE_SECONDS || 120) * 1000;
+
+// Largest audio chunk one POST may carry; a stream sends seconds of audio at a time
+export function maxLiveChunkBytes(): number {
+  return Number(process.env.LIVE_CHUNK_MB || 1) * 1024 * 1024;
+}
+// Ended calls stay listed this long so supervisors can see how they finished
+const ENDED_RETENTION_MS = 10 * 60_000;
+const SIMULATION_TICK_MS = 250;
+// The built-in scorecard's rule sets the deadline for the tape disclosure alert
+const TAPE_DISCLOSURE = builtInRules.fatalTapeDiscloser as MentionRule;
+
+const NEUTRAL: Sentiment = { sentiment: "neutral", sentiment_score: 0 };
+
+export function isLiveSource(value: unknown): value is LiveSource {
+  return (LIVE_SOURCES as unknown[]).includes(value);
+}
+
+export function validateLiveUtterances(input: unknown): string | null {
+  if (!Array.isArray(input) || !input.length) return "utterances must be a non-empty array";
+  for (const u of input as LiveUtteranceInput[]) {
+    if (!u || typeof u.transcript !== "string") return "Every utterance needs a transcript";
+    if (typeof u.start !== "number" || typeof u.end !== "number" || u.end < u.start) {
+      return "Every utterance needs numeric start and end times, in seconds";
+    }
+    if (u.final !== undefined && typeof u.final !== "boolean") return "final must be a boolean";
+  }
+  return null;
+}
+
+function emit(session: LiveSession, event: LiveEvent): void {
+  for (const listener of session.listeners) listener(event);
+}
+
+function averageSentiment(utterances: Utterance[]): Sentiment {
+  if (!utterances.length) return NEUTRAL;
+  const sentiment_score = utterances.reduce((sum, u) => sum + (u.sentiment_score || 0), 0) / utterances.length;
+  const sentiment = sentiment_score > 0.1 ? "positive" : sentiment_score < -0.1 ? "negative" : "neutral";
+  return { sentiment, sentiment_score };
+}
+
+function raise(session: LiveSession, key: string, alert: Omit<LiveAlert, "id">): LiveAlert | null {
+  if (session.raised.has(key)) return null;
+  session.raised.add(key);
+  const raised = { id: randomUUID(), ...alert };
+  session.snapshot.alerts.push(raised);
+  return raised;
+}
+
+// Re-runs the keyword analyzers over everything heard so far, the interim utterance
+// included, and checks the alert rules. Returns the new alerts and whether scores moved
+function evaluate(session: LiveSession): { alerts: LiveAlert[]; scoreChanged: boolean } {
+  const { snapshot, scorecard, options } = session;
+  const heard = session.interim ? [...session.heard, session.interim] : session.heard;
+  const { lexicon } = resolveLanguage(options.language, heard.map(u => u.transcript).join(" "));
+  const { utterances } = assignSpeakerRoles(heard, options.speakerConfig, lexicon.agentCues);
+  snapshot.utterances = utterances.slice(0, session.heard.length);
+  snapshot.interim = session.interim ? utterances[utterances.length - 1] : null;
+
+  const { scores, details } = scoreParameters(scorecard.parameters, {
+    utterances,
+    sentiment: averageSentiment(utterances),
+    topics: [],
+    intents: [],
+    lexicon,
+    dynamics: measureDynamics(utterances, lexicon),
+  });
+  const scoreChanged = JSON.stringify(scores) !== JSON.stringify(snapshot.score.scores);
+  snapshot.score = { ...snapshot.score, scores, details, summary: summarizeScores(scorecard.parameters, scores, scorecard.gradeBands) };
+
+  const alerts: LiveAlert[] = [];
+  const disclosure = snapshot.elapsed >= (TAPE_DISCLOSURE.withinSeconds ?? 0) ? evaluateRule(TAPE_DISCLOSURE, { utterances, lexicon }) : null;
+  if (disclosure && !disclosure.score) {
+    const alert = raise(session, "tapeDisclosure", {
+      rule: "tapeDisclosureMissing",
+      severity: "critical",
+      message: disclosure.reason,
+      at: snapshot.elapsed,
+    });
+    if (alert) alerts.push(alert);
+  }
+  // An interim utterance keeps its index when it becomes final, so each is flagged once
+  utterances.forEach((utterance, index) => {
+    const matched = matchKeywords(utterance.transcript, lexicon.abusive);
+    if (!matched.length) return;
+    const byAgent = utterance.role !== "customer";
+    const alert = raise(session, `abusive:${index}`, {
+      rule: "abusiveLanguage",
+      severity: byAgent ? "critical" : "warning",
+      message: `${byAgent ? "Agent" : "Customer"} used abusive or threatening language: ${matched.join(", ")}`,
+      at: utterance.start,
+      text: utterance.transcript,
+    });
+    if (alert) alerts.push(alert);
+  });
+  return { alerts, scoreChanged };
+}
+
+function ingest(session: LiveSession, raw: Utterance, final: boolean): void {
+  if (session.snapshot.status === "ended") return;
+  const masked = redactText(raw.transcript);
+  const utterance: Utterance = { ...raw, transcript: masked.text };
+  if (final) {
+    session.heard.push(utterance);
+    session.heardClear.push(raw.transcript);
+    session.interim = null;
+    session.interimClear = null;
+    for (const [type, n] of Object.entries(masked.counts) as [PiiType, number][]) {
+      session.redactions[type] = (session.redactions[type] ?? 0) + n;
+    }
+  } else {
+    session.interim = utterance;
+    session.interimClear = raw;
+  }
+  const { snapshot } = session;
+  snapshot.elapsed = Math.max(snapshot.elapsed, utterance.end);
+
+  const { alerts, scoreChanged } = evaluate(session);
+  const attributed = final ? snapshot.utterances[snapshot.utterances.length - 1] : snapshot.interim!;
+  emit(session, { type: "utterance", utterance: attributed, final, elapsed: snapshot.elapsed });
+  for (const alert of alerts) emit(session, { type: "alert", alert });
+  if (scoreChanged) emit(session, { type: "score", score: snapshot.score });
+}
+
+function touch(session: LiveSession): void {
+  if (session.idle) clearTimeout(session.idle);
+  session.idle = setTimeout(() => {
+    finish(session, "No audio or transcript received; the call was ended").catch(error => console.error("Live call end error:", error));
+  }, idleMs());
+  session.idle.unref?.();
+}
+
+// Ends the call: flushes the transcription, saves what was heard to call history like an
+// upload (webhooks included), and tells subscribers. Safe to call more than once
+async function finish(session: LiveSession, error?: string): Promise<void> {
+  const { snapshot } = session;
+  if (snapshot.status !== "live") return;
+  snapshot.status = "ending";
+  if (session.idle) clearTimeout(session.idle);
+  if (session.simulation) clearInterval(session.simulation);
+  await session.transcription?.close().catch(cause => console.error(`Live call ${snapshot.id} transcription close error:`, cause));
+  // Whatever was still being spoken counts as said
+  if (session.interimClear) ingest(session, session.interimClear, true);
+
+  let callId: string | null = null;
+  if (session.heard.length) {
+    const transcript: NormalizedTranscript = {
+      provider: session.provider,
+      transcript: session.heard.map(u => u.transcript).join(" "),
+      utterances: session.heard,
+      sentiment: averageSentiment(session.heard),
+      topics: [],
+      intents: [],
+      duration: snapshot.elapsed,
+    };
+    try {
+      const { call } = await scoreAndSave(transcript, {
+        fileName: `live-${snapshot.startedAt.slice(0, 19).replace(/[:T]/g, "-")}`,
+        scorecard: session.scorecard,
+        options: session.options,
+        owner: session.owner,
+        redactions: session.redactions,
+        clearText: session.heardClear,
+      });
+      callId = call.id;
+    } catch (cause) {
+      console.error(`Live call ${snapshot.id} could not be saved:`, cause);
+      error ??= "The call could not be saved";
+    }
+  }
+
+  snapshot.status = "ended";
+  snapshot.callId = callId;
+  snapshot.error = error;
+  emit(session, { type: "ended", callId, error });
+  session.listeners.clear();
+  setTimeout(() => state.sessions.delete(snapshot.id), ENDED_RETENTION_MS).unref?.();
+}
+
+async function startSimulation(session: LiveSession, fixture: string | undefined, speed: number): Promise<void> {
+  const recording = await loadFixtureFor(fixture ?? "live");
+  const replay = createReplay(recording.utterances, (utterance, final) => ingest(session, utterance, final));
+  const end = recording.utterances[recording.utterances.length - 1]?.end ?? 0;
+  let clock = 0;
+  session.simulation = setInterval(() => {
+    clock += (SIMULATION_TICK_MS / 1000) * speed;
+    replay.advance(clock);
+    touch(session);
+    if (clock >= end) finish(session).catch(error => console.error("Live simulation end error:", error));
+  }, SIMULATION_TICK_MS);
+}
+
+// Starts monitoring a call. Audio calls fail here, before any audio is sent, when the
+// provider can't stream
+export async function startLiveSession(start: LiveStart): Promise<LiveSnapshot> {
+  const { source, options, scorecard } = start;
+  const startedAt = new Date().toISOString();
+  const parameters = describeParameters(scorecard);
+  const session: LiveSession = {
+    snapshot: {
+      id: randomUUID(),
+      source,
+      status: "live",
+      agent: options.agent?.trim() || null,
+      team: options.team?.trim() || null,
+      campaign: options.campaign?.trim() || scorecard.campaign || null,
+      startedBy: start.owner.uploadedBy,
+      startedAt,
+      scorecard: { id: scorecard.id, version: scorecard.version, name: scorecard.name },
+      elapsed: 0,
+      utterances: [],
+      interim: null,
+      alerts: [],
+      score: { scores: {}, summary: summarizeScores(scorecard.parameters, {}, scorecard.gradeBands), details: {}, parameters },
+      callId: null,
+    },
+    owner: start.owner,
+    options,
+    scorecard,
+    provider: source === "simulation" ? "fixture" : "live",
+    heard: [],
+    heardClear: [],
+    interim: null,
+    interimClear: null,
+    redactions: {},
+    raised: new Set(),
+    listeners: new Set(),
+    transcription: null,
+    simulation: null,
+    idle: null,
+  };
+
+  if (source === "audio") {
+    const provider = getTranscriptionProvider(options.provider);
+    if (!provider.startLive) {
+      throw new AnalysisError("INVALID_OPTIONS", `${provider.name} can't transcribe live audio`);
+    }
+    session.provider = provider.name;
+    session.transcription = provider.startLive(
+      { multichannel: options.multichannel, language: providerLanguage(options.language), name: start.fixture },
+      {
+        onTranscript: (utterance, final) => ingest(session, utterance, final),
+        onError: error => {
+          console.error(`Live call ${session.snapshot.id}:`, error);
+          finish(session, "Live transcription failed").catch(cause => console.error("Live call end error:", cause));
+        },
+      }
+    );
+  }
+  if (source === "simulation") {
+    await startSimulation(session, start.fixture, start.speed ?? 1);
+  }
+
+  state.sessions.set(session.snapshot.id, session);
+  touch(session);
+  return session.snapshot;
+}
+
+function find(orgId: string, id: string): LiveSession | null {
+  const session = state.sessions.get(id);
+  return session && session.owner.orgId === orgId ? session : null;
+}
+
+export function getLiveSession(orgId: string, id: string): LiveSnapshot | null {
+  return find(orgId, id)?.snapshot ?? null;
+}
+
+// Newest first
+export function listLiveSessions(orgId: string): LiveSummary[] {
+  return [...state.sessions.values()]
+    .filter(s => s.owner.orgId === orgId)
+    .map(({ snapshot }) => ({
+      id: snapshot.id,
+      source: snapshot.source,
+      status: snapshot.status,
+      agent: snapshot.agent,
+      team: snapshot.team,
+      campaign: snapshot.campaign,
+      startedBy: snapshot.startedBy,
+      startedAt: snapshot.startedAt,
+      scorecard: snapshot.scorecard,
+      elapsed: snapshot.elapsed,
+      alerts: snapshot.alerts,
+      callId: snapshot.callId,
+      error: snapshot.error,
+      percentage: snapshot.score.summary.percentage,
+      grade: snapshot.score.summary.grade,
+    }))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export function pushAudio(orgId: string, id: string, chunk: Buffer): LiveSnapshot | null {
+  const session = find(orgId, id);
+  if (!session) return null;
+  session.transcription?.send(chunk);
+  touch(session);
+  return session.snapshot;
+}
+
+export function pushTranscript(orgId: string, id: string, utterances: LiveUtteranceInput[]): LiveSnapshot | null {
+  const session = find(orgId, id);
+  if (!session) return null;
+  for (const u of utterances) {
+    ingest(
+      session,
+      {
+        transcript: u.transcript,
+        start: u.start,
+        end: u.end,
+        sentiment: u.sentiment ?? "neutral",
+        sentiment_score: u.sentiment_score ?? 0,
+        speaker: u.speaker,
+        channel: u.channel,
+      },
+      u.final ?? true
+    );
+  }
+  touch(session);
+  return session.snapshot;
+}
+
+// The agent's disposition for the call, if given, is checked when the call is scored
+export async function endLiveSession(orgId: string, id: string, disposition?: string): Promise<LiveSnapshot | null> {
+  const session = find(orgId, id);
+  if (!session) return null;
+  if (disposition && session.snapshot.status === "live") session.options = { ...session.options, disposition };
+  await finish(session);
+  return session.snapshot;
+}
+
+// Sends the current snapshot straight away, then every event until the call ends.
+// Returns the unsubscribe function, or null for an unknown call
+export function subscribeLive(orgId: string, id: string, listener: (event: LiveEvent) => void): (() => void) | null {
+  const session = find(orgId, id);
+  if (!session) return null;
+  listener({ type: "snapshot", snapshot: session.snapshot });
+  if (session.snapshot.status === "ended") return () => undefined;
+  session.listeners.add(listener);
+  return () => session.listeners.delete(listener);
+}
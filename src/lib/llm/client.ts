@@ -0,0 +1,74 @@
+import { promises as fs } from "fs";
+import OpenAI from "openai";
+
+export interface StructuredRequest {
+  system: string;
+  user: string;
+  schemaName: string;
+  schema: Record<string, unknown>;
+}
+
+// Section headers of the user prompt; the mock client reads the rubric back out of it
+export const RUBRIC_HEADER = "RUBRIC:";
+export const TRANSCRIPT_HEADER = "TRANSCRIPT:";
+
+// Minimal surface the scorer needs: send a prompt, get back the raw JSON text
+export interface LlmClient {
+  name: string;
+  completeJson(request: StructuredRequest): Promise<string>;
+}
+
+export function createOpenAiClient(apiKey: string, model = process.env.LLM_MODEL || "gpt-4o-mini"): LlmClient {
+  const client = new OpenAI({ apiKey });
+  return {
+    name: `openai:${model}`,
+    async completeJson(request) {
+      const completion = await client.chat.completions.create({
+        model,
+        temperature: 0,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: request.schemaName, schema: request.schema, strict: true },
+        },
+      });
+      const content = completion.choices[0]?.message?.content;
+      if (!content) throw new Error("Model returned an empty response");
+      return content;
+    },
+  };
+}
+
+// Offline stand-in for the model. Replies come from `respond` when given, else from the
+// JSON file named by LLM_MOCK_FIXTURE, else a full-marks answer for every rubric key
+export function createMockLlmClient(respond?: (request: StructuredRequest) => string | Promise<string>): LlmClient {
+  return {
+    name: "mock",
+    async completeJson(request) {
+      if (respond) return respond(request);
+      if (process.env.LLM_MOCK_FIXTURE) {
+        return fs.readFile(process.env.LLM_MOCK_FIXTURE, "utf8");
+      }
+      const rubricStart = request.user.indexOf(RUBRIC_HEADER) + RUBRIC_HEADER.length;
+      const rubric = JSON.parse(request.user.slice(rubricStart, request.user.indexOf(TRANSCRIPT_HEADER)));
+      return JSON.stringify({
+        scores: (rubric as { key: string; maxScore: number }[]).map(p => ({
+          key: p.key,
+          score: p.maxScore,
+          justification: "Mock model response",
+        })),
+      });
+    },
+  };
+}
+
+// LLM_PROVIDER=mock forces the offline client; otherwise OpenAI when a key is set.
+// Returns null when no model is available so callers fall back to keyword scoring
+export function getLlmClient(): LlmClient | null {
+  if (process.env.LLM_PROVIDER === "mock") return createMockLlmClient();
+  if (process.env.OPENAI_API_KEY) return createOpenAiClient(process.env.OPENAI_API_KEY);
+  return null;
+}
@@ -0,0 +1,95 @@
+import type { ScorecardParameter } from "../scorecards";
+import type { Utterance } from "../types";
+import { RUBRIC_HEADER, TRANSCRIPT_HEADER, type LlmClient } from "./client";
+
+export interface LlmParameterScore {
+  score: number;
+  justification: string;
+}
+
+const SYSTEM_PROMPT = `You are a quality assurance auditor for a debt collections call centre.
+Score the agent's performance on each rubric parameter using only the transcript provided.
+Calls are usually in Hindi or Hinglish. Judge only what the AGENT said and did; the customer's behaviour must not lower the agent's score.
+For PASS_FAIL parameters the score must be exactly 0 or maxScore. For SCORE parameters use any integer from 0 to maxScore.
+Give a one or two sentence justification per parameter, quoting the transcript where possible.`;
+
+function formatTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+function speakerLabel(utterance: Utterance): string {
+  if (utterance.role === "agent") return "AGENT";
+  if (utterance.role === "customer") return "CUSTOMER";
+  return "SPEAKER";
+}
+
+export function buildRubricPrompt(parameters: ScorecardParameter[], utterances: Utterance[]): string {
+  const rubric = parameters.map(p => ({
+    key: p.key,
+    name: p.name,
+    description: p.desc,
+    type: p.inputType,
+    maxScore: p.weight,
+  }));
+  const lines = utterances.map(u => `[${formatTime(u.start)}] ${speakerLabel(u)}: ${u.transcript}`);
+  return `${RUBRIC_HEADER}\n${JSON.stringify(rubric, null, 2)}\n\n${TRANSCRIPT_HEADER}\n${lines.join("\n")}`;
+}
+
+export function rubricSchema(parameters: ScorecardParameter[]): Record<string, unknown> {
+  return {
+    type: "object",
+    additionalProperties: false,
+    required: ["scores"],
+    properties: {
+      scores: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["key", "score", "justification"],
+          properties: {
+            key: { type: "string", enum: parameters.map(p => p.key) },
+            score: { type: "number" },
+            justification: { type: "string" },
+          },
+        },
+      },
+    },
+  };
+}
+
+// Keeps only entries that satisfy the rubric: known key, numeric score within range,
+// PASS_FAIL scored all-or-nothing, non-empty justification. Anything else is dropped
+// so that parameter falls back to the keyword analyzer
+export function parseRubricResponse(raw: string, parameters: ScorecardParameter[]): Record<string, LlmParameterScore> {
+  const parsed = JSON.parse(raw) as { scores?: unknown };
+  if (!parsed || !Array.isArray(parsed.scores)) {
+    throw new Error("Model response is missing the scores array");
+  }
+  const byKey = new Map(parameters.map(p => [p.key, p]));
+  const result: Record<string, LlmParameterScore> = {};
+  for (const entry of parsed.scores as { key?: unknown; score?: unknown; justification?: unknown }[]) {
+    const param = typeof entry?.key === "string" ? byKey.get(entry.key) : undefined;
+    if (!param || result[param.key]) continue;
+    if (typeof entry.score !== "number" || !Number.isFinite(entry.score)) continue;
+    if (entry.score < 0 || entry.score > param.weight) continue;
+    if (param.inputType === "PASS_FAIL" && entry.score !== 0 && entry.score !== param.weight) continue;
+    if (typeof entry.justification !== "string" || !entry.justification.trim()) continue;
+    result[param.key] = { score: Math.round(entry.score), justification: entry.justification.trim() };
+  }
+  return result;
+}
+
+export async function scoreWithLlm(
+  client: LlmClient,
+  parameters: ScorecardParameter[],
+  utterances: Utterance[]
+): Promise<Record<string, LlmParameterScore>> {
+  const raw = await client.completeJson({
+    system: SYSTEM_PROMPT,
+    user: buildRubricPrompt(parameters, utterances),
+    schemaName: "qa_rubric_scores",
+    schema: rubricSchema(parameters),
+  });
+  return parseRubricResponse(raw, parameters);
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import type { ScoringMode } from "./analyzers";
+import { createUser, emailTaken, type PublicUser, type UserInput } from "./auth";
+import { isLanguageOption, type LanguageOption } from "./language";
+import { validateDispositionCodes, type DispositionCode } from "./outcome";
+import { isScoringMode } from "./pipeline";
+import { isPiiView, type PiiView } from "./redaction";
+import { readCollection, updateCollection } from "./store";
+import { isProviderName, type ProviderName } from "./transcription";
+
+// Defaults for uploads that don't set the option themselves; unset falls back to the
+// server environment
+export interface OrgSettings {
+  scorecardId?: string;
+  provider?: ProviderName;
+  scoringMode?: ScoringMode;
+  language?: LanguageOption;
+  piiView?: PiiView;
+  // Disposition codes the call outcome is matched to, in priority order
+  dispositionCodes?: DispositionCode[];
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  settings: OrgSettings;
+  createdAt: string;
+}
+
+export interface OrgInput {
+  name?: string;
+  settings?: OrgSettings;
+}
+
+export interface SignupInput extends UserInput {
+  organization?: string;
+}
+
+const COLLECTION = "orgs";
+
+// Collections whose records belong to an organization
+const OWNED_COLLECTIONS = ["calls", "batches", "scorecards", "webhooks"];
+
+export function validateOrgInput(input: OrgInput): string | null {
+  if (input.name !== undefined && (typeof input.name !== "string" || !input.name.trim())) {
+    return "Organization name can't be empty";
+  }
+  const settings = input.settings;
+  if (settings === undefined) return null;
+  if (!settings || typeof settings !== "object") return "settings must be an object";
+  if (settings.scorecardId !== undefined && typeof settings.scorecardId !== "string") return "scorecardId must be a string";
+  if (settings.provider !== undefined && !isProviderName(settings.provider)) {
+    return `Unknown transcription provider: ${settings.provider}`;
+  }
+  if (settings.scoringMode !== undefined && !isScoringMode(settings.scoringMode)) {
+    return `Unknown scoring mode: ${settings.scoringMode}`;
+  }
+  if (settings.language !== undefined && !isLanguageOption(settings.language)) {
+    return `Unknown language: ${settings.language}`;
+  }
+  if (settings.piiView !== undefined && !isPiiView(settings.piiView)) {
+    return `Unknown PII view: ${settings.piiView}`;
+  }
+  if (settings.dispositionCodes !== undefined) return validateDispositionCodes(settings.dispositionCodes);
+  return null;
+}
+
+export async function hasOrganizations(): Promise<boolean> {
+  return (await readCollection<Organization>(COLLECTION)).length > 0;
+}
+
+export async function getOrg(id: string): Promise<Organization | null> {
+  return (await readCollection<Organization>(COLLECTION)).find(o => o.id === id) ?? null;
+}
+
+// Settings are merged, so a PATCH only needs the ones it changes
+export async function updateOrg(id: string, input: OrgInput): Promise<Organization | null> {
+  return updateCollection<Organization, Organization | null>(COLLECTION, items => {
+    const current = items.find(o => o.id === id);
+    if (!current) return { items, result: null };
+    const updated: Organization = {
+      ...current,
+      name: input.name?.trim() || current.name,
+      settings: { ...current.settings, ...input.settings },
+    };
+    return { items: items.map(o => (o.id === id ? updated : o)), result: updated };
+  });
+}
+
+// Calls, batches, scorecards and webhooks saved before organizations existed go to the
+// first organization created, so upgrading an install doesn't orphan its history
+async function adoptUnownedData(orgId: string): Promise<void> {
+  for (const name of OWNED_COLLECTIONS) {
+    await updateCollection<{ orgId?: string }, void>(name, items => ({
+      items: items.map(item => (item.orgId ? item : { ...item, orgId })),
+      result: undefined,
+    }));
+  }
+}
+
+// Creates an organization with its first admin. Returns null when the admin's email is
+// already registered
+export async function signUp(input: SignupInput): Promise<{ org: Organization; user: PublicUser } | null> {
+  if (await emailTaken(input.email!)) return null;
+  const org: Organization = {
+    id: randomUUID(),
+    name: input.organization!.trim(),
+    settings: {},
+    createdAt: new Date().toISOString(),
+  };
+  const first = await updateCollection<Organization, boolean>(COLLECTION, items => ({
+    items: [...items, org],
+    result: items.length === 0,
+  }));
+  const user = await createUser(org.id, { ...input, role: "admin" });
+  if (!user) {
+    await updateCollection<Organization, void>(COLLECTION, items => ({ items: items.filter(o => o.id !== org.id), result: undefined }));
+    return null;
+  }
+  if (first) await adoptUnownedData(org.id);
+  return { org, user };
+}
@@ -0,0 +1,299 @@
+import type { Evidence } from "./analyzers";
+import { findKeywords, matchKeywords, phraseTokens, tokenize, type DatePeriod, type Lexicon } from "./language";
+import type { Utterance } from "./types";
+
+// What a collections call achieved, read from what the customer said: a promise to pay
+// (with amount and date), a refusal and why, a dispute or a request to call back
+
+export type OutcomeKind = "promiseToPay" | "dispute" | "callback" | "refusal" | "none";
+export const OUTCOME_KINDS: OutcomeKind[] = ["promiseToPay", "dispute", "callback", "refusal", "none"];
+
+export interface DispositionCode {
+  code: string;
+  label: string;
+  // The outcome that suggests this code; "none" is a call with no outcome at all
+  outcome: OutcomeKind;
+}
+
+// The first code whose outcome the call had is suggested, so order is priority: a dispute
+// outranks a promise made while disputing
+export const DEFAULT_DISPOSITION_CODES: DispositionCode[] = [
+  { code: "DISPUTE", label: "Dispute", outcome: "dispute" },
+  { code: "PTP", label: "Promise to pay", outcome: "promiseToPay" },
+  { code: "CALLBACK", label: "Callback requested", outcome: "callback" },
+  { code: "RTP", label: "Refused to pay", outcome: "refusal" },
+  { code: "NO_COMMITMENT", label: "No commitment", outcome: "none" },
+];
+
+export interface PromisedDate {
+  // YYYY-MM-DD, resolved against the call date
+  date: string;
+  // What was said, e.g. "शुक्रवार" or "5 तारीख"
+  phrase: string;
+}
+
+export interface CallOutcome {
+  promiseToPay: boolean;
+  // Rupees as spoken, when the promise names an amount
+  amount: number | null;
+  date: PromisedDate | null;
+  // Only when the customer refused without going on to promise
+  refusal: boolean;
+  // Why the customer can't pay as due, e.g. "salary delay", even if they then promised
+  refusalReason: string | null;
+  dispute: boolean;
+  callbackRequested: boolean;
+  suggestedDisposition: DispositionCode | null;
+  evidence: Evidence[];
+}
+
+export interface OutcomeOptions {
+  codes?: DispositionCode[];
+  // Relative dates ("कल", "this week") count from here; defaults to now
+  callDate?: Date;
+}
+
+interface NumberRun {
+  start: number;
+  end: number;
+  value: number;
+}
+
+// How far from the promise the amount and date may have been said, e.g. in the agent's
+// "so 5,000 by Friday?" before a customer's "yes, I will"
+const DETAIL_WINDOW = 2;
+const ORDINAL = /^(\d{1,2})(st|nd|rd|th)$/;
+// "in 90 days" is still a promise date; longer counts are more likely tenures or DPD
+const MAX_DAY_COUNT = 90;
+
+export function validateDispositionCodes(codes: unknown): string | null {
+  if (!Array.isArray(codes) || !codes.length) return "dispositionCodes must be a non-empty array";
+  const seen = new Set<string>();
+  for (const code of codes as DispositionCode[]) {
+    if (!code || typeof code.code !== "string" || !code.code.trim()) return "Every disposition needs a code";
+    if (seen.has(code.code.toUpperCase())) return `Duplicate disposition code: ${code.code}`;
+    seen.add(code.code.toUpperCase());
+    if (typeof code.label !== "string" || !code.label.trim()) return `Disposition ${code.code} needs a label`;
+    if (!OUTCOME_KINDS.includes(code.outcome)) {
+      return `Disposition ${code.code} has an unknown outcome: ${code.outcome} (use ${OUTCOME_KINDS.join(", ")})`;
+    }
+  }
+  return null;
+}
+
+function evidenceFrom(utterance: Utterance, keywords: string[], rule: string): Evidence {
+  return { text: utterance.transcript, start: utterance.start, end: utterance.end, keywords, rule };
+}
+
+// Lexicon words keyed by their folded form, as they appear in tokenized text
+function foldedWords(words: string[]): Map<string, string> {
+  return new Map(words.map(word => [phraseTokens(word).join(" "), word]));
+}
+
+function foldedValues<T>(words: Record<string, T>): Map<string, T> {
+  return new Map(Object.entries(words).map(([word, value]) => [phraseTokens(word).join(" "), value]));
+}
+
+// Digits and spelled-out numbers, combined the way they're spoken: "पांच हज़ार" is 5000,
+// "twenty five" is 25 and "डेढ़ लाख" 150000. A unit after a unit starts a new number,
+// so account digits read out one by one don't add up
+function numberRuns(tokens: string[], words: Map<string, number>): NumberRun[] {
+  const valueOf = (token: string) => (/^\d+$/.test(token) ? Number(token) : words.get(token));
+  const runs: NumberRun[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    if (valueOf(tokens[i]) === undefined) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let total = 0;
+    let current = 0;
+    for (; i < tokens.length; i++) {
+      const value = valueOf(tokens[i]);
+      if (value === undefined) break;
+      if (value >= 1000) {
+        total += (current || 1) * value;
+        current = 0;
+      } else if (value === 100) {
+        current = (current || 1) * 100;
+      } else if (i === start || (current % 100 === 0 && value < 100) || (current % 10 === 0 && value < 10)) {
+        current += value;
+      } else {
+        break;
+      }
+    }
+    runs.push({ start, end: i, value: total + current });
+  }
+  return runs;
+}
+
+// The amount in an utterance: a number next to a currency word, else the largest number
+// of at least 100. Days of the month ("5 तारीख") and counts of days aren't amounts
+function findAmount(text: string, lexicon: Lexicon): number | null {
+  // "5,000" is one number, not 5 and 000
+  const { tokens } = tokenize(text.replace(/(\d),(?=\d)/g, "$1"));
+  const currency = foldedWords(lexicon.currency);
+  const dayOfMonth = foldedWords(lexicon.dayOfMonth);
+  const dayCount = foldedWords(lexicon.dayCount);
+  const candidates = numberRuns(tokens, foldedValues(lexicon.numberWords)).filter(
+    run => !dayOfMonth.has(tokens[run.end]) && !dayCount.has(tokens[run.end])
+  );
+  const withCurrency = candidates.filter(run => currency.has(tokens[run.end]) || currency.has(tokens[run.start - 1]));
+  const pool = withCurrency.length ? withCurrency : candidates.filter(run => run.value >= 100);
+  return pool.length ? Math.max(...pool.map(run => run.value)) : null;
+}
+
+const addDays = (date: Date, days: number) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function endOfPeriod(callDate: Date, period: DatePeriod): Date {
+  const year = callDate.getUTCFullYear();
+  const month = callDate.getUTCMonth();
+  switch (period) {
+    case "thisWeek":
+      return addDays(callDate, (7 - callDate.getUTCDay()) % 7);
+    case "nextWeek":
+      return addDays(callDate, ((7 - callDate.getUTCDay()) % 7) + 7);
+    case "thisMonth":
+      return new Date(Date.UTC(year, month + 1, 0));
+    case "nextMonth":
+      return new Date(Date.UTC(year, month + 2, 0));
+  }
+}
+
+// A day of the month that has already passed this month means next month's
+function nextDayOfMonth(callDate: Date, day: number): Date {
+  const year = callDate.getUTCFullYear();
+  const month = callDate.getUTCMonth() + (day < callDate.getUTCDate() ? 1 : 0);
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+}
+
+// The longest phrase said without a negation ("day after tomorrow" over "tomorrow")
+function longestPhrase(text: string, phrases: string[]): string | null {
+  const said = findKeywords(text, phrases).filter(m => !m.negated);
+  if (!said.length) return null;
+  return said.reduce((best, m) => (m.end - m.start > best.end - best.start ? m : best)).keyword;
+}
+
+// The most specific date in an utterance: a day of the month or a number of days, then a
+// weekday, then a relative day, then the end of a week or month
+function findDate(text: string, lexicon: Lexicon, callDate: Date): PromisedDate | null {
+  const { tokens } = tokenize(text);
+  const dayOfMonth = foldedWords(lexicon.dayOfMonth);
+  const dayCount = foldedWords(lexicon.dayCount);
+  for (const run of numberRuns(tokens, foldedValues(lexicon.numberWords))) {
+    if (dayOfMonth.has(tokens[run.end]) && Number.isInteger(run.value) && run.value >= 1 && run.value <= 31) {
+      return { date: isoDate(nextDayOfMonth(callDate, run.value)), phrase: `${run.value} ${dayOfMonth.get(tokens[run.end])}` };
+    }
+    if (dayCount.has(tokens[run.end]) && Number.isInteger(run.value) && run.value >= 1 && run.value <= MAX_DAY_COUNT) {
+      return { date: isoDate(addDays(callDate, run.value)), phrase: `${run.value} ${dayCount.get(tokens[run.end])}` };
+    }
+  }
+  const ordinal = tokens.map(token => ORDINAL.exec(token)).find(match => match && Number(match[1]) >= 1 && Number(match[1]) <= 31);
+  if (ordinal) return { date: isoDate(nextDayOfMonth(callDate, Number(ordinal[1]))), phrase: ordinal[0] };
+
+  const weekday = longestPhrase(text, Object.keys(lexicon.weekdays));
+  if (weekday) {
+    const ahead = (lexicon.weekdays[weekday] - callDate.getUTCDay() + 7) % 7 || 7;
+    return { date: isoDate(addDays(callDate, ahead)), phrase: weekday };
+  }
+  const relative = longestPhrase(text, Object.keys(lexicon.relativeDays));
+  if (relative) return { date: isoDate(addDays(callDate, lexicon.relativeDays[relative])), phrase: relative };
+  const period = longestPhrase(text, Object.keys(lexicon.periods));
+  if (period) return { date: isoDate(endOfPeriod(callDate, lexicon.periods[period])), phrase: period };
+  return null;
+}
+
+// The utterance itself first, then its neighbours, nearest and earlier first
+function nearby(utterances: Utterance[], index: number): Utterance[] {
+  const order = [utterances[index]];
+  for (let distance = 1; distance <= DETAIL_WINDOW; distance++) {
+    if (utterances[index - distance]) order.push(utterances[index - distance]);
+    if (utterances[index + distance]) order.push(utterances[index + distance]);
+  }
+  return order;
+}
+
+export function extractOutcome(utterances: Utterance[], lexicon: Lexicon, options: OutcomeOptions = {}): CallOutcome {
+  const callDate = options.callDate ?? new Date();
+  const evidence: Evidence[] = [];
+  let promiseIndex = -1;
+  let promiseKeywords: string[] = [];
+  let refusalEvidence: Evidence | null = null;
+  let dispute = false;
+  let callbackRequested = false;
+  let refusalReason: string | null = null;
+
+  utterances.forEach((utterance, index) => {
+    // Outcomes are what the customer says; the agent only asks
+    if (utterance.role === "agent") return;
+    const text = utterance.transcript;
+    const callback = matchKeywords(text, lexicon.callback);
+    // A generic "I'll do it" is a promise when it or the question it answers names a date
+    // or amount, and it isn't about calling back
+    const promise = matchKeywords(text, lexicon.promiseToPay);
+    const commitment = promise.length || callback.length ? [] : matchKeywords(text, lexicon.commitment);
+    const hasDetails = (u?: Utterance) => !!u && (!!findDate(u.transcript, lexicon, callDate) || findAmount(u.transcript, lexicon) !== null);
+    if (promise.length || (commitment.length && (hasDetails(utterance) || hasDetails(utterances[index - 1])))) {
+      // A later promise replaces an earlier one
+      promiseIndex = index;
+      promiseKeywords = promise.length ? promise : commitment;
+    }
+
+    const refused = matchKeywords(text, lexicon.refusal);
+    if (refused.length && !refusalEvidence) refusalEvidence = evidenceFrom(utterance, refused, "refusal to pay");
+    const disputed = matchKeywords(text, lexicon.dispute);
+    if (disputed.length && !dispute) {
+      dispute = true;
+      evidence.push(evidenceFrom(utterance, disputed, "dispute"));
+    }
+    if (callback.length && !callbackRequested) {
+      callbackRequested = true;
+      evidence.push(evidenceFrom(utterance, callback, "callback request"));
+    }
+    if (!refusalReason) {
+      for (const [reason, keywords] of Object.entries(lexicon.refusalReasons)) {
+        const matched = matchKeywords(text, keywords);
+        if (!matched.length) continue;
+        refusalReason = reason;
+        evidence.push(evidenceFrom(utterance, matched, `reason for not paying: ${reason}`));
+        break;
+      }
+    }
+  });
+
+  const promiseToPay = promiseIndex !== -1;
+  let amount: number | null = null;
+  let date: PromisedDate | null = null;
+  if (promiseToPay) {
+    evidence.unshift(evidenceFrom(utterances[promiseIndex], promiseKeywords, "promise to pay"));
+    for (const utterance of nearby(utterances, promiseIndex)) {
+      amount ??= findAmount(utterance.transcript, lexicon);
+      date ??= findDate(utterance.transcript, lexicon, callDate);
+    }
+  }
+
+  const refusal = !!refusalEvidence && !promiseToPay;
+  if (refusal) evidence.push(refusalEvidence!);
+  const had: Record<OutcomeKind, boolean> = {
+    promiseToPay,
+    dispute,
+    callback: callbackRequested,
+    refusal,
+    none: !promiseToPay && !dispute && !callbackRequested && !refusal,
+  };
+  const codes = options.codes ?? DEFAULT_DISPOSITION_CODES;
+  return {
+    promiseToPay,
+    amount,
+    date,
+    refusal,
+    refusalReason,
+    dispute,
+    callbackRequested,
+    suggestedDisposition: codes.find(code => had[code.outcome]) ?? null,
+    evidence,
+  };
+}
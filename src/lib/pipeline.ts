@@ -0,0 +1,184 @@
+import { scoreParameters, type ParameterDetail, type ScoringMode } from "./analyzers";
+import { measureDynamics, type ConversationDynamics } from "./dynamics";
+import { generateObservation, generateOverallFeedback } from "./feedback";
+import { resolveLanguage, type LanguageInfo, type LanguageOption, type Lexicon } from "./language";
+import { getLlmClient, type LlmClient } from "./llm/client";
+import { scoreWithLlm } from "./llm/rubric";
+import { extractOutcome, type CallOutcome, type DispositionCode } from "./outcome";
+import type { Scorecard } from "./scorecards";
+import { summarizeScores, type ScoreSummary } from "./scoring";
+import { assignSpeakerRoles, type SpeakerAttribution, type SpeakerConfig } from "./speakers";
+import type { NormalizedTranscript, Utterance } from "./types";
+
+export interface ResultParameter {
+  key: string;
+  name: string;
+  weight: number;
+  description: string;
+  type: "PASS_FAIL" | "SCORE";
+  fatal: boolean;
+}
+
+export interface ScoringInfo {
+  requested: ScoringMode;
+  // Model that produced the llm-mode scores, if one was reachable
+  model: string | null;
+  // Why some or all parameters fell back to keyword scoring
+  fallbackReason?: string;
+}
+
+export interface AnalysisResult {
+  scores: Record<string, number>;
+  summary: ScoreSummary;
+  details: Record<string, ParameterDetail>;
+  overallFeedback: string;
+  observation: string;
+  scorecard: { id: string; version: number; name: string };
+  parameters: ResultParameter[];
+  speakerAttribution: SpeakerAttribution;
+  provider: string;
+  scoring: ScoringInfo;
+  language: LanguageInfo;
+  dynamics: ConversationDynamics;
+  outcome: CallOutcome;
+  // The transcript that was scored, with speaker roles assigned to each utterance
+  transcript: NormalizedTranscript;
+}
+
+export interface AnalysisOptions {
+  scorecard: Scorecard;
+  speakerConfig?: SpeakerConfig;
+  // Which language packs to score with; "auto" detects them from the transcript
+  language?: LanguageOption;
+  scoringMode?: ScoringMode;
+  // Defaults to getLlmClient(); pass a mock client to exercise llm mode offline
+  llmClient?: LlmClient | null;
+  // Codes the outcome suggests a disposition from, and the one the agent logged
+  dispositionCodes?: DispositionCode[];
+  loggedDisposition?: string;
+  // When the call took place, for promised dates like "कल"; defaults to now
+  callDate?: Date;
+  // The unmasked text of each utterance, one for one with the transcript's. Only the
+  // outcome reads it, since masking turns promised dates and amounts into [NUMBER]
+  clearText?: string[];
+  // Leaves out the per-call log line, for bulk runs such as evaluation
+  quiet?: boolean;
+}
+
+export function isScoringMode(mode: string): mode is ScoringMode {
+  return mode === "keyword" || mode === "llm";
+}
+
+export function describeParameters(scorecard: Scorecard): ResultParameter[] {
+  return scorecard.parameters.map(p => ({
+    key: p.key,
+    name: p.name,
+    weight: p.weight,
+    description: p.desc,
+    type: p.inputType,
+    fatal: p.fatal
+  }));
+}
+
+// Reads the outcome from the clear text when there is one. Only the structured result
+// comes from it: the evidence quotes the masked utterances, so nothing unmasked is kept
+function outcomeOf(utterances: Utterance[], lexicon: Lexicon, options: AnalysisOptions): CallOutcome {
+  const outcomeOptions = { codes: options.dispositionCodes, callDate: options.callDate };
+  const { clearText } = options;
+  if (!clearText) return extractOutcome(utterances, lexicon, outcomeOptions);
+  const clear = utterances.map((u, i) => ({ ...u, transcript: clearText[i] ?? u.transcript }));
+  const outcome = extractOutcome(clear, lexicon, outcomeOptions);
+  const evidence = outcome.evidence.map(e => {
+    const i = clear.findIndex(u => u.transcript === e.text && u.start === e.start && u.end === e.end);
+    return { ...e, text: utterances[i]?.transcript ?? "" };
+  });
+  return { ...outcome, evidence };
+}
+
+// Runs every analyzer for the scorecard over a normalized transcript. Kept free of
+// transcription concerns so uploads, fixtures and saved transcripts share one path
+export async function analyzeTranscript(normalized: NormalizedTranscript, options: AnalysisOptions): Promise<AnalysisResult> {
+  const { scorecard } = options;
+  const { transcript, sentiment, topics, intents } = normalized;
+  const { info: language, lexicon } = resolveLanguage(
+    options.language ?? "auto",
+    normalized.transcript || normalized.utterances.map(u => u.transcript).join(" ")
+  );
+  const { utterances, attribution } = assignSpeakerRoles(normalized.utterances, options.speakerConfig, lexicon.agentCues);
+
+  // Counts only: even masked text can carry what the redactor missed
+  if (!options.quiet) {
+    console.log("Call analysis:", {
+      provider: normalized.provider,
+      language: language.detected,
+      utterances: utterances.length,
+      transcriptLength: transcript.length,
+      topics: topics.length,
+      intents: intents.length,
+    });
+  }
+
+  const dynamics = measureDynamics(utterances, lexicon);
+  const outcome = outcomeOf(utterances, lexicon, options);
+
+  // Keyword analyzers always run: they are the fallback for llm mode and supply its evidence
+  const { scores, details, observations } = scoreParameters(scorecard.parameters, {
+    utterances,
+    sentiment,
+    topics,
+    intents,
+    lexicon,
+    dynamics,
+    outcome,
+    loggedDisposition: options.loggedDisposition,
+  });
+  const scoring: ScoringInfo = { requested: options.scoringMode ?? "keyword", model: null };
+
+  if (scoring.requested === "llm") {
+    const client = options.llmClient === undefined ? getLlmClient() : options.llmClient;
+    if (!client) {
+      scoring.fallbackReason = "No language model configured";
+    } else {
+      scoring.model = client.name;
+      try {
+        const llmScores = await scoreWithLlm(client, scorecard.parameters, utterances);
+        const missing: string[] = [];
+        for (const param of scorecard.parameters) {
+          const llmScore = llmScores[param.key];
+          if (!llmScore) {
+            missing.push(param.key);
+            continue;
+          }
+          scores[param.key] = llmScore.score;
+          details[param.key] = { ...details[param.key], reason: llmScore.justification, mode: "llm" };
+        }
+        if (missing.length) {
+          scoring.fallbackReason = `Model returned no valid score for: ${missing.join(", ")}`;
+        }
+      } catch (error) {
+        console.error('LLM scoring failed, using keyword scores:', error);
+        scoring.fallbackReason = `Model unavailable or returned invalid output: ${(error as Error).message}`;
+      }
+    }
+  }
+
+  const overallFeedback = generateOverallFeedback(scorecard.parameters, scores, sentiment);
+  const observation = generateObservation(observations, topics, sentiment);
+
+  return {
+    scores,
+    summary: summarizeScores(scorecard.parameters, scores, scorecard.gradeBands),
+    details,
+    overallFeedback,
+    observation,
+    scorecard: { id: scorecard.id, version: scorecard.version, name: scorecard.name },
+    parameters: describeParameters(scorecard),
+    speakerAttribution: attribution,
+    provider: normalized.provider,
+    scoring,
+    language,
+    dynamics,
+    outcome,
+    transcript: { ...normalized, utterances },
+  };
+}
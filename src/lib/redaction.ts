@@ -0,0 +1,197 @@
+import type { NormalizedTranscript } from "./types";
+
+export type PiiType = "PHONE" | "AADHAAR" | "PAN" | "EMAIL" | "UPI" | "NAME" | "NUMBER";
+
+// Masked: transcripts shown to the reviewer carry [PHONE]-style tags. Clear: the
+// reviewer sees what was said; stored calls, exports and logs are masked either way
+export type PiiView = "masked" | "clear";
+
+export const PII_VIEWS: PiiView[] = ["masked", "clear"];
+
+export function isPiiView(value: string): value is PiiView {
+  return (PII_VIEWS as string[]).includes(value);
+}
+
+export type PiiCounts = Partial<Record<PiiType, number>>;
+
+export interface RedactedText {
+  text: string;
+  counts: PiiCounts;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  type: PiiType;
+}
+
+const EMAIL = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu;
+// UPI handles look like name@bank, without the dotted domain of an email
+const UPI = /[\p{L}\p{N}._-]{2,}@[a-z]{2,}\b/giu;
+const PAN = /\b[A-Z]{5}[0-9]{4}[A-Z]\b/gi;
+
+// Lookup key for word lists: nukta letters (ज़, फ़) may arrive precomposed or not
+const wordKey = (word: string) => word.normalize("NFC").toLowerCase();
+const wordMap = <T>(entries: Record<string, T>) =>
+  new Map(Object.entries(entries).map(([word, value]) => [wordKey(word), value]));
+
+// Digit words as ASR writes them in Hindi, romanized Hindi and English
+const DIGIT_WORDS = wordMap({
+  "शून्य": "0", "ज़ीरो": "0", "जीरो": "0", "एक": "1", "दो": "2", "तीन": "3", "चार": "4",
+  "पांच": "5", "पाँच": "5", "छह": "6", "छः": "6", "छे": "6", "सात": "7", "आठ": "8", "नौ": "9",
+  shunya: "0", zero: "0", ek: "1", do: "2", teen: "3", char: "4", chaar: "4",
+  panch: "5", paanch: "5", chhe: "6", chhah: "6", che: "6", saat: "7", aath: "8", nau: "9", nao: "9",
+  oh: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+});
+
+// "double five" is how people read out 55
+const REPEATS = wordMap({
+  "डबल": 2, "ट्रिपल": 3, double: 2, triple: 3,
+});
+
+// Words that announce an identifier, so even a short run after them is masked. A bare
+// "no" isn't one: it is far more often the answer than "no." for number
+const NUMBER_CUES = wordMap<PiiType>({
+  "नंबर": "NUMBER", "नम्बर": "NUMBER", "खाता": "NUMBER", "अकाउंट": "NUMBER", "कार्ड": "NUMBER",
+  "आधार": "AADHAAR", "मोबाइल": "PHONE", "फोन": "PHONE", "फ़ोन": "PHONE", "ओटीपी": "NUMBER", "पिन": "NUMBER",
+  number: "NUMBER", account: "NUMBER", khata: "NUMBER", card: "NUMBER",
+  aadhaar: "AADHAAR", aadhar: "AADHAAR", mobile: "PHONE", phone: "PHONE", otp: "NUMBER", pin: "NUMBER",
+});
+const CUE_WINDOW = 4;
+
+// A run right next to a currency word is an amount, and one followed by a date word is a
+// day of the month or a number of days, not an identifier
+const CURRENCY = new Set(["₹", "रुपये", "रुपए", "रुपया", "rs", "rupees", "rupaye", "inr"].map(wordKey));
+const DATE_WORDS = new Set(["तारीख", "दिन", "दिनों", "tarikh", "din", "date", "days"].map(wordKey));
+
+const NAME = "[\\p{L}][\\p{L}\\p{M}]*";
+// Cue words must start a word; \b only knows ASCII letters
+const after = (cues: string) => `(?<=(?<![\\p{L}\\p{M}])(?:${cues})\\s+)`;
+// Name masking is cue-based: introductions, "baat X ji se" and honorifics
+const NAME_PATTERNS = [
+  new RegExp(`${after("मेरा नाम|my name is|mera naam|mera name")}${NAME}(?:\\s+${NAME})?`, "giu"),
+  new RegExp(`${after("मैं|main|mai")}${NAME}(?=\\s+(?:बोल|bol))`, "giu"),
+  new RegExp(`${after("बात|baat")}${NAME}(?:\\s+${NAME})?(?=\\s+(?:जी|ji)\\s+(?:से|se)(?![\\p{L}\\p{M}]))`, "giu"),
+  new RegExp(`${after("श्री|श्रीमती|मिस्टर|मिसेज़|मिसेज|shri|shrimati|mr\\.?|mrs\\.?|ms\\.?")}${NAME}(?:\\s+${NAME})?`, "giu"),
+];
+// Words the name cues are often followed by that are never names
+const NOT_NAMES = new Set(["अभी", "भी", "ही", "तो", "आपसे", "abhi", "bhi", "hi", "to", "aapse", "yahan", "wahan"].map(wordKey));
+
+const DEVANAGARI_ZERO = 0x0966;
+const TOKEN = /[\p{L}\p{M}\p{N}]+|₹/gu;
+// Separators allowed inside one read-out number ("98765 43210", "चार, पांच")
+const JOINER = /^[\s,-]*$/;
+
+const toAsciiDigits = (s: string) =>
+  s.replace(/[०-९]/g, d => String(d.charCodeAt(0) - DEVANAGARI_ZERO));
+
+function digitsOf(word: string): string | null {
+  if (/^[0-9०-९]+$/.test(word)) return toAsciiDigits(word);
+  return DIGIT_WORDS.get(wordKey(word)) ?? null;
+}
+
+function classifyNumber(digits: string, cue: PiiType | null): PiiType {
+  const local = digits.replace(/^(?:91|0)(?=[6-9]\d{9}$)/, "");
+  if (/^[6-9]\d{9}$/.test(local)) return "PHONE";
+  if (/^[2-9]\d{11}$/.test(digits)) return "AADHAAR";
+  return cue ?? "NUMBER";
+}
+
+// Finds numbers given as digits, Devanagari digits or spoken digit words, alone or mixed.
+// Long runs are masked anywhere; short ones only when a cue like "account number" precedes
+function numberSpans(text: string): Span[] {
+  const tokens = [...text.matchAll(TOKEN)].map(m => ({ word: m[0], start: m.index!, end: m.index! + m[0].length }));
+  const spans: Span[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const first = i;
+    let digits = "";
+    let pieces = 0;
+    let repeat = 1;
+    while (i < tokens.length) {
+      if (i > first && !JOINER.test(text.slice(tokens[i - 1].end, tokens[i].start))) break;
+      const times = REPEATS.get(wordKey(tokens[i].word));
+      if (times && i + 1 < tokens.length && digitsOf(tokens[i + 1].word)?.length === 1) {
+        repeat = times;
+        i++;
+        continue;
+      }
+      const d = digitsOf(tokens[i].word);
+      if (d === null) break;
+      digits += d.repeat(repeat);
+      repeat = 1;
+      pieces++;
+      i++;
+    }
+    if (!pieces) {
+      i = first + 1;
+      continue;
+    }
+    const last = i - 1;
+    const cue = tokens.slice(Math.max(0, first - CUE_WINDOW), first).reverse()
+      .map(t => NUMBER_CUES.get(wordKey(t.word)))
+      .find(type => type !== undefined) ?? null;
+    const neighbours = [tokens[first - 1], tokens[last + 1]].filter(Boolean);
+    const nearCurrency = neighbours.some(t => CURRENCY.has(wordKey(t.word)));
+    const beforeDate = tokens[last + 1] !== undefined && DATE_WORDS.has(wordKey(tokens[last + 1].word));
+    // Short read-out numbers ("4 5 6 7") count only when given piece by piece
+    const identifier = digits.length >= 6 || (digits.length >= 4 && pieces >= 3) || (cue !== null && digits.length >= 2);
+    if (identifier && !nearCurrency && !(beforeDate && digits.length <= 2)) {
+      // Take a leading + with it, as in +91
+      const start = text[tokens[first].start - 1] === "+" ? tokens[first].start - 1 : tokens[first].start;
+      spans.push({ start, end: tokens[last].end, type: classifyNumber(digits, cue) });
+    }
+  }
+  return spans;
+}
+
+function patternSpans(text: string, pattern: RegExp, type: PiiType): Span[] {
+  return [...text.matchAll(pattern)]
+    .filter(m => type !== "NAME" || !NOT_NAMES.has(wordKey(m[0].split(/\s+/)[0])))
+    .map(m => ({ start: m.index!, end: m.index! + m[0].length, type }));
+}
+
+// Replaces Indian PII in free text with [TYPE] tags. Earlier patterns win where spans
+// overlap, so an email isn't also counted as a UPI handle
+export function redactText(text: string): RedactedText {
+  const found = [
+    ...patternSpans(text, EMAIL, "EMAIL"),
+    ...patternSpans(text, UPI, "UPI"),
+    ...patternSpans(text, PAN, "PAN"),
+    ...NAME_PATTERNS.flatMap(pattern => patternSpans(text, pattern, "NAME")),
+    ...numberSpans(text),
+  ];
+  const spans: Span[] = [];
+  for (const span of found) {
+    if (!spans.some(s => span.start < s.end && s.start < span.end)) spans.push(span);
+  }
+  spans.sort((a, b) => a.start - b.start);
+
+  const counts: PiiCounts = {};
+  let out = "";
+  let cursor = 0;
+  for (const span of spans) {
+    out += text.slice(cursor, span.start) + `[${span.type}]`;
+    counts[span.type] = (counts[span.type] ?? 0) + 1;
+    cursor = span.end;
+  }
+  return { text: out + text.slice(cursor), counts };
+}
+
+// Masks the full transcript and every utterance. Counts come from the utterances, which
+// repeat the full text, so each occurrence is counted once
+export function redactTranscript(normalized: NormalizedTranscript): { transcript: NormalizedTranscript; counts: PiiCounts } {
+  const counts: PiiCounts = {};
+  const utterances = normalized.utterances.map(u => {
+    const redacted = redactText(u.transcript);
+    for (const [type, n] of Object.entries(redacted.counts) as [PiiType, number][]) {
+      counts[type] = (counts[type] ?? 0) + n;
+    }
+    return { ...u, transcript: redacted.text };
+  });
+  const full = redactText(normalized.transcript);
+  return {
+    transcript: { ...normalized, transcript: full.text, utterances },
+    counts: utterances.length ? counts : full.counts,
+  };
+}
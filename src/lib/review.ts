@@ -0,0 +1,190 @@
+import { updateCall, type CallRecord } from "./calls";
+import { generateOverallFeedback } from "./feedback";
+import { getScorecard, type ScorecardParameter } from "./scorecards";
+import { summarizeScores } from "./scoring";
+
+export interface ScoreOverride {
+  score: number;
+  // What the analyzers originally gave, kept however many times the score is changed
+  automatedScore: number;
+  comment: string;
+  reviewer: string;
+  at: string;
+}
+
+export interface ReviewState {
+  reviewer: string;
+  at: string;
+  comment?: string;
+}
+
+// Append-only history of reviewer actions on a call
+export interface AuditEntry {
+  at: string;
+  reviewer: string;
+  action: "override" | "review";
+  parameter?: string;
+  from?: number;
+  to?: number;
+  comment: string;
+}
+
+export interface OverrideInput {
+  parameter: string;
+  score: number;
+  comment: string;
+}
+
+export interface ReviewInput {
+  reviewer?: string;
+  comment?: string;
+  overrides?: OverrideInput[];
+}
+
+export interface CalibrationRow {
+  key: string;
+  name: string;
+  // Reviewed calls that include the parameter
+  reviewed: number;
+  overridden: number;
+  // Share (0-100) of reviewed calls where the reviewer kept the automated score
+  agreementRate: number;
+  // Mean |human - automated|, in points and as a share (0-100) of the weight
+  meanAbsoluteError: number;
+  meanAbsoluteErrorPct: number;
+  // Mean human - automated; negative means the analyzer scores too generously
+  bias: number;
+}
+
+export interface CalibrationReport {
+  reviewedCalls: number;
+  // Least trustworthy analyzers first
+  parameters: CalibrationRow[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Returns an error message, or null when the review can be applied to the call
+export function validateReviewInput(input: ReviewInput, call: CallRecord): string | null {
+  if (typeof input.reviewer !== "string" || !input.reviewer.trim()) {
+    return "Reviewer is required";
+  }
+  if (input.overrides !== undefined && !Array.isArray(input.overrides)) {
+    return "Overrides must be an array";
+  }
+  const seen = new Set<string>();
+  for (const override of input.overrides ?? []) {
+    const param = call.result.parameters.find(p => p.key === override?.parameter);
+    if (!param) {
+      return `Unknown parameter: ${override?.parameter}`;
+    }
+    if (seen.has(param.key)) {
+      return `Parameter ${param.key} is overridden more than once`;
+    }
+    seen.add(param.key);
+    if (typeof override.score !== "number" || !Number.isFinite(override.score) || override.score < 0 || override.score > param.weight) {
+      return `Score for ${param.key} must be between 0 and ${param.weight}`;
+    }
+    if (param.type === "PASS_FAIL" && override.score !== 0 && override.score !== param.weight) {
+      return `${param.key} is pass/fail, so its score must be 0 or ${param.weight}`;
+    }
+    if (typeof override.comment !== "string" || !override.comment.trim()) {
+      return `A comment is required to override ${param.key}`;
+    }
+  }
+  return null;
+}
+
+// Applies a validated review: overrides replace the effective scores, the summary and
+// overall feedback are recomputed, and every change is appended to the audit trail
+export async function submitReview(call: CallRecord, input: ReviewInput): Promise<CallRecord | null> {
+  const reviewer = input.reviewer!.trim();
+  const scorecard = await getScorecard(call.orgId, call.result.scorecard.id, call.result.scorecard.version);
+  const parameters: ScorecardParameter[] = call.result.parameters.map(p => ({
+    key: p.key,
+    name: p.name,
+    weight: p.weight,
+    desc: p.description,
+    inputType: p.type,
+    fatal: p.fatal,
+  }));
+
+  return updateCall(call.id, current => {
+    const at = new Date().toISOString();
+    const automatedScores = current.automatedScores ?? { ...current.result.scores };
+    const scores = { ...current.result.scores };
+    const overrides = { ...current.overrides };
+    const audit = [...(current.audit ?? [])];
+
+    for (const override of input.overrides ?? []) {
+      const comment = override.comment.trim();
+      audit.push({
+        at,
+        reviewer,
+        action: "override",
+        parameter: override.parameter,
+        from: scores[override.parameter] ?? 0,
+        to: override.score,
+        comment,
+      });
+      scores[override.parameter] = override.score;
+      overrides[override.parameter] = {
+        score: override.score,
+        automatedScore: automatedScores[override.parameter] ?? 0,
+        comment,
+        reviewer,
+        at,
+      };
+    }
+    const comment = input.comment?.trim() || undefined;
+    audit.push({ at, reviewer, action: "review", comment: comment ?? "" });
+
+    return {
+      ...current,
+      result: {
+        ...current.result,
+        scores,
+        summary: summarizeScores(parameters, scores, scorecard?.gradeBands),
+        overallFeedback: generateOverallFeedback(parameters, scores, current.transcript.sentiment),
+      },
+      automatedScores,
+      overrides,
+      review: { reviewer, at, comment },
+      audit,
+    };
+  });
+}
+
+// Compares automated and human scores over reviewed calls. A parameter the reviewer
+// didn't override counts as agreement, since the reviewer accepted it
+export function calibrationReport(calls: CallRecord[]): CalibrationReport {
+  const reviewed = calls.filter(c => c.review);
+  const byKey = new Map<string, { name: string; weight: number; diffs: number[]; overridden: number }>();
+
+  for (const call of reviewed) {
+    for (const param of call.result.parameters) {
+      const automated = call.automatedScores?.[param.key] ?? call.result.scores[param.key] ?? 0;
+      const human = call.overrides?.[param.key]?.score ?? automated;
+      const entry = byKey.get(param.key) ?? { name: param.name, weight: param.weight, diffs: [], overridden: 0 };
+      entry.diffs.push(human - automated);
+      if (call.overrides?.[param.key]) entry.overridden++;
+      byKey.set(param.key, entry);
+    }
+  }
+
+  const parameters = [...byKey].map(([key, { name, weight, diffs, overridden }]) => {
+    const mae = diffs.reduce((sum, d) => sum + Math.abs(d), 0) / diffs.length;
+    return {
+      key,
+      name,
+      reviewed: diffs.length,
+      overridden,
+      agreementRate: round2((diffs.filter(d => d === 0).length / diffs.length) * 100),
+      meanAbsoluteError: round2(mae),
+      meanAbsoluteErrorPct: weight ? round2((mae / weight) * 100) : 0,
+      bias: round2(diffs.reduce((sum, d) => sum + d, 0) / diffs.length),
+    };
+  });
+  parameters.sort((a, b) => a.agreementRate - b.agreementRate || b.meanAbsoluteErrorPct - a.meanAbsoluteErrorPct);
+  return { reviewedCalls: reviewed.length, parameters };
+}
@@ -0,0 +1,293 @@
+import defaultScorecard from "@/data/scorecards/default.json";
+import type { AnalyzerResult, Evidence } from "./analyzers";
+import { languagePacks, matchKeywords, type Lexicon } from "./language";
+import { agentUtterances } from "./speakers";
+import type { Utterance } from "./types";
+
+// Detection logic written as data, so analysts can define or tune a parameter from the
+// scorecard instead of code. Phrase lists mix literal phrases with "@name" references to
+// the language pack lists (e.g. "@disclosure"), which keeps rules language-neutral
+
+export type RuleSpeaker = "agent" | "customer" | "any";
+
+interface RuleBase {
+  // What the phrases detect, used in reasons, e.g. "tape disclosure"
+  label: string;
+  // Whose speech is checked; defaults to the agent
+  speaker?: RuleSpeaker;
+  // Sentences added to the call's observation when the rule earns nothing (fail) or
+  // something (pass)
+  observation?: { pass?: string; fail?: string };
+}
+
+// One of the phrases has to be said, within the first withinSeconds if set
+export interface MentionRule extends RuleBase {
+  type: "mention";
+  phrases: string[];
+  withinSeconds?: number;
+}
+
+// None of the phrases may be said
+export interface ForbiddenRule extends RuleBase {
+  type: "forbidden";
+  phrases: string[];
+}
+
+// The first phrases (named by label) have to come before the first mention of the `then`
+// phrases, e.g. identification before payment discussion. Passes when `then` never comes up
+export interface OrderRule extends RuleBase {
+  type: "order";
+  first: string[];
+  then: string[];
+  thenLabel: string;
+}
+
+// The speaker's first or last utterance has to contain one of the phrases; a first
+// utterance also has to start within withinSeconds if set
+export interface UtteranceRule extends RuleBase {
+  type: "firstUtterance" | "lastUtterance";
+  phrases: string[];
+  withinSeconds?: number;
+}
+
+export interface PointsTerm {
+  phrases: string[];
+  points: number;
+  label: string;
+  // Only counts in utterances that ask a question
+  questionOnly?: boolean;
+}
+
+// Every utterance earns the points of each term it matches. The score is
+// (total - deduct) out of max, clamped to 0..max
+export interface PointsRule extends RuleBase {
+  type: "points";
+  terms: PointsTerm[];
+  deduct?: number;
+  max: number;
+}
+
+export type Rule = MentionRule | ForbiddenRule | OrderRule | UtteranceRule | PointsRule;
+
+export type RuleType = Rule["type"];
+export const RULE_TYPES: RuleType[] = ["mention", "forbidden", "order", "firstUtterance", "lastUtterance", "points"];
+
+export interface RuleContext {
+  utterances: Utterance[];
+  lexicon: Lexicon;
+}
+
+// Rules of the built-in scorecard, by parameter key. Scorecards saved without rules fall
+// back to these for parameters (or analyzer names) that match
+export const builtInRules: Record<string, Rule> = Object.fromEntries(
+  (defaultScorecard.parameters as { key: string; rule?: Rule }[]).flatMap(p => (p.rule ? [[p.key, p.rule]] : []))
+);
+
+// Lexicon entries that are phrase lists and can be referenced as "@name"
+const PHRASE_LISTS = Object.entries(languagePacks.en.lexicon)
+  .filter(([, value]) => Array.isArray(value))
+  .map(([name]) => name);
+
+const capitalize = (text: string) => `${text[0].toUpperCase()}${text.slice(1)}`;
+
+function validatePhrases(phrases: unknown, field: string): string | null {
+  if (!Array.isArray(phrases) || !phrases.length) return `${field} must be a non-empty array of phrases`;
+  for (const phrase of phrases) {
+    if (typeof phrase !== "string" || !phrase.trim()) return `${field} can't contain empty phrases`;
+    if (phrase.startsWith("@") && !PHRASE_LISTS.includes(phrase.slice(1))) {
+      return `Unknown phrase list ${phrase}, expected one of: ${PHRASE_LISTS.map(n => `@${n}`).join(", ")}`;
+    }
+  }
+  return null;
+}
+
+const isSeconds = (value: unknown) => value === undefined || (typeof value === "number" && value >= 0);
+
+export function isRuleType(value: unknown): value is RuleType {
+  return (RULE_TYPES as unknown[]).includes(value);
+}
+
+// Returns an error message, or null when the rule can be evaluated
+export function validateRule(input: unknown): string | null {
+  if (!input || typeof input !== "object") return "rule must be an object";
+  const rule = input as Rule;
+  if (!isRuleType(rule.type)) return `rule type must be one of: ${RULE_TYPES.join(", ")}`;
+  if (typeof rule.label !== "string" || !rule.label.trim()) return "rule needs a label";
+  if (rule.speaker !== undefined && !["agent", "customer", "any"].includes(rule.speaker)) {
+    return "rule speaker must be agent, customer or any";
+  }
+  if (rule.observation !== undefined) {
+    const { pass, fail } = rule.observation ?? {};
+    if (!rule.observation || typeof rule.observation !== "object" || [pass, fail].some(s => s !== undefined && typeof s !== "string")) {
+      return "rule observation must be an object with pass and/or fail sentences";
+    }
+  }
+  switch (rule.type) {
+    case "mention":
+    case "firstUtterance":
+    case "lastUtterance":
+      if (!isSeconds(rule.withinSeconds)) return "withinSeconds must be a number of seconds";
+      return validatePhrases(rule.phrases, "phrases");
+    case "forbidden":
+      return validatePhrases(rule.phrases, "phrases");
+    case "order":
+      if (typeof rule.thenLabel !== "string" || !rule.thenLabel.trim()) return "order rule needs a thenLabel";
+      return validatePhrases(rule.first, "first") ?? validatePhrases(rule.then, "then");
+    case "points":
+      if (typeof rule.max !== "number" || !(rule.max > 0)) return "points rule needs a positive max";
+      if (rule.deduct !== undefined && !(typeof rule.deduct === "number" && rule.deduct >= 0)) {
+        return "deduct must be a non-negative number";
+      }
+      if (!Array.isArray(rule.terms) || !rule.terms.length) return "points rule needs at least one term";
+      for (const term of rule.terms) {
+        if (!term || typeof term.label !== "string" || typeof term.points !== "number") {
+          return "Every points term needs a label and points";
+        }
+        const invalid = validatePhrases(term.phrases, `${term.label} phrases`);
+        if (invalid) return invalid;
+      }
+      return null;
+  }
+}
+
+function resolvePhrases(phrases: string[], lexicon: Lexicon): string[] {
+  return phrases.flatMap(phrase =>
+    phrase.startsWith("@") ? ((lexicon[phrase.slice(1) as keyof Lexicon] as string[] | undefined) ?? []) : [phrase]
+  );
+}
+
+function speechOf(utterances: Utterance[], speaker: RuleSpeaker = "agent"): Utterance[] {
+  if (speaker === "agent") return agentUtterances(utterances);
+  if (speaker === "customer") return utterances.filter(u => u.role !== "agent");
+  return utterances;
+}
+
+function evidenceFrom(utterance: Utterance, keywords: string[], rule: string): Evidence {
+  return { text: utterance.transcript, start: utterance.start, end: utterance.end, keywords, rule };
+}
+
+function firstMatch(utterances: Utterance[], phrases: string[]): { utterance: Utterance; matched: string[] } | null {
+  for (const utterance of utterances) {
+    const matched = matchKeywords(utterance.transcript, phrases);
+    if (matched.length) return { utterance, matched };
+  }
+  return null;
+}
+
+type RuleOutcome = Omit<AnalyzerResult, "observation">;
+
+function evaluateMention(rule: MentionRule, speech: Utterance[], lexicon: Lexicon): RuleOutcome {
+  const within = rule.withinSeconds;
+  const window = within === undefined ? speech : speech.filter(u => u.start <= within);
+  const found = firstMatch(window, resolvePhrases(rule.phrases, lexicon));
+  const when = within === undefined ? "" : ` in the first ${within} seconds`;
+  if (!found) return { score: 0, reason: `No ${rule.label}${when}`, evidence: [] };
+  return {
+    score: 1,
+    reason: `${capitalize(rule.label)} at ${found.utterance.start.toFixed(1)}s`,
+    evidence: [evidenceFrom(found.utterance, found.matched, within === undefined ? rule.label : `${rule.label} within ${within}s`)],
+  };
+}
+
+function evaluateForbidden(rule: ForbiddenRule, speech: Utterance[], lexicon: Lexicon): RuleOutcome {
+  const phrases = resolvePhrases(rule.phrases, lexicon);
+  const evidence = speech
+    .map(utterance => ({ utterance, matched: matchKeywords(utterance.transcript, phrases) }))
+    .filter(({ matched }) => matched.length > 0)
+    .map(({ utterance, matched }) => evidenceFrom(utterance, matched, rule.label));
+  return evidence.length
+    ? { score: 0, reason: `${capitalize(rule.label)} in ${evidence.length} utterance(s)`, evidence }
+    : { score: 1, reason: `No ${rule.label}`, evidence };
+}
+
+function evaluateOrder(rule: OrderRule, speech: Utterance[], lexicon: Lexicon): RuleOutcome {
+  const then = firstMatch(speech, resolvePhrases(rule.then, lexicon));
+  if (!then) return { score: 1, reason: `No ${rule.thenLabel}, so nothing had to come before it`, evidence: [] };
+  const first = firstMatch(speech, resolvePhrases(rule.first, lexicon));
+  const thenEvidence = evidenceFrom(then.utterance, then.matched, rule.thenLabel);
+  if (first && first.utterance.start <= then.utterance.start) {
+    return {
+      score: 1,
+      reason: `${capitalize(rule.label)} at ${first.utterance.start.toFixed(1)}s, before ${rule.thenLabel} at ${then.utterance.start.toFixed(1)}s`,
+      evidence: [evidenceFrom(first.utterance, first.matched, rule.label), thenEvidence],
+    };
+  }
+  return {
+    score: 0,
+    reason: first
+      ? `${capitalize(rule.thenLabel)} at ${then.utterance.start.toFixed(1)}s came before ${rule.label} at ${first.utterance.start.toFixed(1)}s`
+      : `${capitalize(rule.thenLabel)} at ${then.utterance.start.toFixed(1)}s without any ${rule.label}`,
+    evidence: first ? [thenEvidence, evidenceFrom(first.utterance, first.matched, rule.label)] : [thenEvidence],
+  };
+}
+
+function evaluateUtterance(rule: UtteranceRule, speech: Utterance[], lexicon: Lexicon): RuleOutcome {
+  const speaker = rule.speaker ?? "agent";
+  if (!speech.length) return { score: 0, reason: `No ${speaker === "any" ? "" : `${speaker} `}speech found`, evidence: [] };
+  const position = rule.type === "firstUtterance" ? "first" : "last";
+  const utterance = position === "first" ? speech[0] : speech[speech.length - 1];
+  const matched = matchKeywords(utterance.transcript, resolvePhrases(rule.phrases, lexicon));
+  const onTime = rule.withinSeconds === undefined || position === "last" || utterance.start <= rule.withinSeconds;
+  const timing = position === "first" && rule.withinSeconds !== undefined ? ` within ${rule.withinSeconds}s` : "";
+  const evidence = [evidenceFrom(utterance, matched, `${rule.label} in ${position} utterance${timing}`)];
+  if (matched.length && onTime) {
+    return { score: 1, reason: `${capitalize(rule.label)} in the ${position} utterance, at ${utterance.start.toFixed(1)}s`, evidence };
+  }
+  return {
+    score: 0,
+    reason: matched.length
+      ? `${capitalize(rule.label)} came late, at ${utterance.start.toFixed(1)}s`
+      : `${capitalize(position)} utterance has no ${rule.label}`,
+    evidence,
+  };
+}
+
+function evaluatePoints(rule: PointsRule, speech: Utterance[], lexicon: Lexicon): RuleOutcome {
+  const terms = rule.terms.map(term => ({ ...term, resolved: resolvePhrases(term.phrases, lexicon) }));
+  const deduct = rule.deduct ?? 0;
+  const evidence: Evidence[] = [];
+  let total = 0;
+  for (const utterance of speech) {
+    const text = utterance.transcript;
+    const hits = terms
+      .map(term => ({ term, matched: term.questionOnly && !text.includes("?") ? [] : matchKeywords(text, term.resolved) }))
+      .filter(({ matched }) => matched.length > 0);
+    if (!hits.length) continue;
+    total += hits.reduce((sum, { term }) => sum + term.points, 0);
+    evidence.push(evidenceFrom(
+      utterance,
+      hits.flatMap(({ matched }) => matched),
+      hits.map(({ term }) => `${term.label} (+${term.points})`).join(", ")
+    ));
+  }
+  const points = Math.min(rule.max, Math.max(0, total - deduct));
+  const deducted = deduct ? `, ${deduct} point baseline deducted` : "";
+  return {
+    score: points / rule.max,
+    reason: evidence.length
+      ? `${evidence.length} utterance(s) with ${rule.label} (${total} raw points${deducted})`
+      : `No ${rule.label} found`,
+    evidence,
+  };
+}
+
+export function evaluateRule(rule: Rule, ctx: RuleContext): AnalyzerResult {
+  const speech = speechOf(ctx.utterances, rule.speaker);
+  const outcome = (() => {
+    switch (rule.type) {
+      case "mention":
+        return evaluateMention(rule, speech, ctx.lexicon);
+      case "forbidden":
+        return evaluateForbidden(rule, speech, ctx.lexicon);
+      case "order":
+        return evaluateOrder(rule, speech, ctx.lexicon);
+      case "firstUtterance":
+      case "lastUtterance":
+        return evaluateUtterance(rule, speech, ctx.lexicon);
+      case "points":
+        return evaluatePoints(rule, speech, ctx.lexicon);
+    }
+  })();
+  const observation = outcome.score > 0 ? rule.observation?.pass : rule.observation?.fail;
+  return observation ? { ...outcome, observation } : outcome;
+}
@@ -0,0 +1,176 @@
+import defaultScorecard from "@/data/scorecards/default.json";
+import { validateRule, type Rule } from "./rules";
+import { readCollection, updateCollection } from "./store";
+
+export type InputType = "PASS_FAIL" | "SCORE";
+
+export interface ScorecardParameter {
+  key: string;
+  name: string;
+  weight: number;
+  desc: string;
+  inputType: InputType;
+  fatal: boolean;
+  // Analyzer used to score this parameter, defaults to the parameter key
+  analyzer?: string;
+  // Detection logic as data; takes the place of the analyzer when set
+  rule?: Rule;
+}
+
+// Lowest percentage (inclusive) that earns the label
+export interface GradeBand {
+  min: number;
+  label: string;
+}
+
+export interface Scorecard {
+  id: string;
+  version: number;
+  // Absent on the built-in scorecard, which every organization starts with
+  orgId?: string;
+  name: string;
+  campaign?: string;
+  parameters: ScorecardParameter[];
+  gradeBands?: GradeBand[];
+  createdAt: string;
+}
+
+export interface ScorecardInput {
+  name?: string;
+  campaign?: string;
+  parameters?: ScorecardParameter[];
+  gradeBands?: GradeBand[];
+}
+
+const COLLECTION = "scorecards";
+
+export const DEFAULT_SCORECARD_ID = "default";
+
+// The built-in scorecard is always version 1 of "default"; later versions are stored per
+// organization, so one org editing it doesn't change it for the others
+const builtIn = defaultScorecard as Scorecard;
+
+async function allScorecards(orgId: string): Promise<Scorecard[]> {
+  return [builtIn, ...(await readCollection<Scorecard>(COLLECTION)).filter(s => s.orgId === orgId)];
+}
+
+function latest(versions: Scorecard[]): Scorecard | undefined {
+  return versions.reduce<Scorecard | undefined>(
+    (best, s) => (!best || s.version > best.version ? s : best),
+    undefined
+  );
+}
+
+export async function listScorecards(orgId: string): Promise<(Scorecard & { versions: number[] })[]> {
+  const byId = new Map<string, Scorecard[]>();
+  for (const scorecard of await allScorecards(orgId)) {
+    byId.set(scorecard.id, [...(byId.get(scorecard.id) ?? []), scorecard]);
+  }
+  return Array.from(byId.values()).map(versions => ({
+    ...latest(versions)!,
+    versions: versions.map(v => v.version).sort((a, b) => a - b),
+  }));
+}
+
+export async function getScorecard(orgId: string, id: string, version?: number): Promise<Scorecard | null> {
+  const versions = (await allScorecards(orgId)).filter(s => s.id === id);
+  if (version !== undefined) {
+    return versions.find(s => s.version === version) ?? null;
+  }
+  return latest(versions) ?? null;
+}
+
+export function validateScorecardInput(input: ScorecardInput, requireName: boolean): string | null {
+  if (requireName && (typeof input.name !== "string" || !input.name.trim())) {
+    return "Scorecard name is required";
+  }
+  if (!Array.isArray(input.parameters) || input.parameters.length === 0) {
+    return "Scorecard must define at least one parameter";
+  }
+  const keys = new Set<string>();
+  for (const p of input.parameters) {
+    if (!p || typeof p.key !== "string" || !p.key.trim()) return "Every parameter needs a key";
+    if (keys.has(p.key)) return `Duplicate parameter key: ${p.key}`;
+    keys.add(p.key);
+    if (typeof p.name !== "string" || !p.name.trim()) return `Parameter ${p.key} needs a name`;
+    if (typeof p.weight !== "number" || !(p.weight > 0)) return `Parameter ${p.key} needs a positive weight`;
+    if (p.inputType !== "PASS_FAIL" && p.inputType !== "SCORE") {
+      return `Parameter ${p.key} has invalid type, expected PASS_FAIL or SCORE`;
+    }
+    if (p.fatal !== undefined && typeof p.fatal !== "boolean") return `Parameter ${p.key} fatal flag must be a boolean`;
+    if (p.rule !== undefined) {
+      const invalid = validateRule(p.rule);
+      if (invalid) return `Parameter ${p.key}: ${invalid}`;
+    }
+  }
+  if (input.gradeBands !== undefined) {
+    if (!Array.isArray(input.gradeBands) || input.gradeBands.length === 0) return "gradeBands must be a non-empty array";
+    for (const band of input.gradeBands) {
+      if (!band || typeof band.label !== "string" || typeof band.min !== "number" || band.min < 0 || band.min > 100) {
+        return "Each grade band needs a label and a min percentage between 0 and 100";
+      }
+    }
+  }
+  return null;
+}
+
+function normalizeParameters(parameters: ScorecardParameter[]): ScorecardParameter[] {
+  return parameters.map(p => ({
+    key: p.key.trim(),
+    name: p.name.trim(),
+    weight: p.weight,
+    desc: p.desc ?? "",
+    inputType: p.inputType,
+    fatal: p.fatal ?? false,
+    ...(p.analyzer ? { analyzer: p.analyzer } : {}),
+    ...(p.rule ? { rule: p.rule } : {}),
+  }));
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "scorecard";
+}
+
+export async function createScorecard(orgId: string, input: ScorecardInput): Promise<Scorecard> {
+  return updateCollection<Scorecard, Scorecard>(COLLECTION, items => {
+    const base = slugify(input.name!);
+    let id = base;
+    const taken = (candidate: string) => candidate === builtIn.id || items.some(s => s.orgId === orgId && s.id === candidate);
+    for (let n = 2; taken(id); n++) {
+      id = `${base}-${n}`;
+    }
+    const scorecard: Scorecard = {
+      id,
+      version: 1,
+      orgId,
+      name: input.name!.trim(),
+      campaign: input.campaign,
+      parameters: normalizeParameters(input.parameters!),
+      gradeBands: input.gradeBands,
+      createdAt: new Date().toISOString(),
+    };
+    return { items: [...items, scorecard], result: scorecard };
+  });
+}
+
+// Versions are immutable: editing a scorecard appends a new version so past
+// analyses can still be rendered against the scorecard they were scored with
+export async function createScorecardVersion(orgId: string, id: string, input: ScorecardInput): Promise<Scorecard | null> {
+  const current = await getScorecard(orgId, id);
+  if (!current) return null;
+  return updateCollection<Scorecard, Scorecard>(COLLECTION, items => {
+    const own = items.filter(s => s.orgId === orgId && s.id === id);
+    const version = Math.max(current.version, ...own.map(s => s.version)) + 1;
+    const scorecard: Scorecard = {
+      id,
+      version,
+      orgId,
+      name: input.name?.trim() || current.name,
+      campaign: input.campaign ?? current.campaign,
+      parameters: normalizeParameters(input.parameters ?? current.parameters),
+      gradeBands: input.gradeBands ?? current.gradeBands,
+      createdAt: new Date().toISOString(),
+    };
+    return { items: [...items, scorecard], result: scorecard };
+  });
+}
@@ -0,0 +1,58 @@
+import type { GradeBand, ScorecardParameter } from "./scorecards";
+
+export interface FatalError {
+  key: string;
+  name: string;
+}
+
+export interface ScoreSummary {
+  score: number;
+  maxScore: number;
+  // Percentage after fatal rules are applied; rawPercentage ignores them
+  percentage: number;
+  rawPercentage: number;
+  grade: string;
+  fatalErrors: FatalError[];
+}
+
+export const DEFAULT_GRADE_BANDS: GradeBand[] = [
+  { min: 90, label: "Excellent" },
+  { min: 75, label: "Good" },
+  { min: 50, label: "Needs Improvement" },
+  { min: 0, label: "Fail" },
+];
+
+export const FATAL_GRADE = "Fail";
+
+export function gradeFor(percentage: number, bands: GradeBand[] = DEFAULT_GRADE_BANDS): string {
+  const sorted = [...bands].sort((a, b) => b.min - a.min);
+  return sorted.find(band => percentage >= band.min)?.label ?? FATAL_GRADE;
+}
+
+// A fatal parameter that scores zero fails the whole call: the total drops to 0
+// and the grade is forced to Fail regardless of how the other parameters went
+export function summarizeScores(
+  parameters: ScorecardParameter[],
+  scores: Record<string, number>,
+  bands: GradeBand[] = DEFAULT_GRADE_BANDS
+): ScoreSummary {
+  const maxScore = parameters.reduce((sum, p) => sum + p.weight, 0);
+  const earned = parameters.reduce((sum, p) => sum + Math.min(p.weight, scores[p.key] ?? 0), 0);
+  const rawPercentage = maxScore > 0 ? Math.round((earned / maxScore) * 1000) / 10 : 0;
+
+  const fatalErrors = parameters
+    .filter(p => p.fatal && (scores[p.key] ?? 0) <= 0)
+    .map(p => ({ key: p.key, name: p.name }));
+
+  if (fatalErrors.length > 0) {
+    return { score: 0, maxScore, percentage: 0, rawPercentage, grade: FATAL_GRADE, fatalErrors };
+  }
+  return {
+    score: earned,
+    maxScore,
+    percentage: rawPercentage,
+    rawPercentage,
+    grade: gradeFor(rawPercentage, bands),
+    fatalErrors,
+  };
+}
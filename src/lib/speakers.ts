@@ -0,0 +1,113 @@
+import { matchKeywords } from "./language";
+import type { Sentiment, SpeakerRole, Utterance } from "./types";
+
+export interface SpeakerConfig {
+  // Explicit agent channel for dual-channel recordings (e.g. dialers that put the agent on the left)
+  agentChannel?: number;
+  // Explicit agent speaker index for diarized mono recordings
+  agentSpeaker?: number;
+}
+
+export interface SpeakerAttribution {
+  source: "channel" | "diarization" | "none";
+  method: "configured" | "heuristic" | "none";
+  agent?: number;
+}
+
+function parseIndex(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export function speakerConfigFrom(form: { get(name: string): unknown }): SpeakerConfig {
+  return {
+    agentChannel: parseIndex((form.get("agentChannel") as string | null) ?? process.env.AGENT_CHANNEL),
+    agentSpeaker: parseIndex((form.get("agentSpeaker") as string | null) ?? process.env.AGENT_SPEAKER),
+  };
+}
+
+// Pick the agent among the distinct channel or speaker ids: the one using the most
+// agent cues (openings, disclosures, collection talk) wins, and whoever speaks first
+// breaks ties since agents open outbound calls
+function guessAgent(utterances: Utterance[], idOf: (u: Utterance) => number, agentCues: string[]): number {
+  const cueCounts = new Map<number, number>();
+  for (const utterance of utterances) {
+    const id = idOf(utterance);
+    const hits = matchKeywords(utterance.transcript, agentCues).length;
+    cueCounts.set(id, (cueCounts.get(id) ?? 0) + hits);
+  }
+  const firstId = idOf(utterances[0]);
+  let agent = firstId;
+  for (const [id, count] of cueCounts) {
+    if (count > (cueCounts.get(agent) ?? 0)) agent = id;
+  }
+  return agent;
+}
+
+export function assignSpeakerRoles(
+  utterances: Utterance[],
+  config: SpeakerConfig = {},
+  agentCues: string[] = []
+): { utterances: Utterance[]; attribution: SpeakerAttribution } {
+  const channels = new Set(utterances.map(u => u.channel).filter((c): c is number => c !== undefined));
+  const speakers = new Set(utterances.map(u => u.speaker).filter((s): s is number => s !== undefined));
+
+  // Dual-channel audio separates the parties physically, so prefer it over diarization
+  let source: SpeakerAttribution["source"] = "none";
+  let idOf: (u: Utterance) => number | undefined = () => undefined;
+  let configured: number | undefined;
+  if (channels.size > 1) {
+    source = "channel";
+    idOf = u => u.channel;
+    configured = config.agentChannel;
+  } else if (speakers.size > 1) {
+    source = "diarization";
+    idOf = u => u.speaker;
+    configured = config.agentSpeaker;
+  }
+
+  if (source === "none") {
+    return {
+      utterances: utterances.map(u => ({ ...u, role: "unknown" as SpeakerRole })),
+      attribution: { source, method: "none" },
+    };
+  }
+
+  const attributed = utterances.filter(u => idOf(u) !== undefined);
+  const agent = configured ?? guessAgent(attributed, u => idOf(u)!, agentCues);
+  return {
+    utterances: utterances.map(u => {
+      const id = idOf(u);
+      const role: SpeakerRole = id === undefined ? "unknown" : id === agent ? "agent" : "customer";
+      return { ...u, role };
+    }),
+    attribution: { source, method: configured !== undefined ? "configured" : "heuristic", agent },
+  };
+}
+
+// Without attribution every utterance is "unknown" and counts for both sides,
+// which keeps single-speaker transcripts scoring the way they always have
+export function agentUtterances(utterances: Utterance[]): Utterance[] {
+  return utterances.filter(u => u.role !== "customer");
+}
+
+export function customerUtterances(utterances: Utterance[]): Utterance[] {
+  return utterances.filter(u => u.role !== "agent");
+}
+
+// Call-level sentiment mixes both parties; when the agent is known, average their utterances instead
+export function agentSentiment(utterances: Utterance[], overall: Sentiment): Sentiment {
+  const agent = utterances.filter(u => u.role === "agent");
+  if (!agent.length) return overall;
+  const sentiment_score = agent.reduce((sum, u) => sum + (u.sentiment_score || 0), 0) / agent.length;
+  const sentiment = sentiment_score > 0.1 ? "positive" : sentiment_score < -0.1 ? "negative" : "neutral";
+  return { sentiment, sentiment_score };
+}
+
+// Mono/stereo is only knowable up front for WAV, where the channel count sits in the fmt header
+export function wavChannelCount(buffer: Buffer): number | null {
+  if (buffer.length < 24) return null;
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") return null;
+  return buffer.readUInt16LE(22);
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Simple JSON-file backed collections. Each collection lives in its own file
+// under DATA_DIR (defaults to ./.data) and is rewritten in full on update.
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data");
+
+// Serialize writes per collection so concurrent requests don't clobber each other
+const locks = new Map<string, Promise<unknown>>();
+
+// Location for files that don't fit in a collection, e.g. uploaded audio kept for retries
+export function dataPath(...parts: string[]): string {
+  return path.join(DATA_DIR, ...parts);
+}
+
+function collectionPath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(collectionPath(name), "utf8");
+    return JSON.parse(raw) as T[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+export async function updateCollection<T, R>(
+  name: string,
+  update: (items: T[]) => { items: T[]; result: R }
+): Promise<R> {
+  const previous = locks.get(name) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const { items, result } = update(await readCollection<T>(name));
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    const file = collectionPath(name);
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(items, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+    return result;
+  });
+  locks.set(name, next);
+  return next;
+}
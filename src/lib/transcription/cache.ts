@@ -0,0 +1,183 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import { dataPath, readCollection, updateCollection } from "../store";
+import type { NormalizedTranscript } from "../types";
+import type { TranscriptionProvider, TranscriptionRequest } from "./types";
+
+// Transcripts of audio an organization already uploaded, keyed by the audio's content
+// hash and the provider settings that shape the transcript, so re-scoring a call doesn't
+// send it to the provider again. The clear transcript is kept so either PII view can be
+// served, encrypted under a key derived from the audio itself: only someone uploading the
+// same recording again, who could have it transcribed anyway, can read it. Callers mask
+// it like a fresh transcript
+
+export interface TranscriptCacheEntry {
+  key: string;
+  orgId: string;
+  provider: string;
+  audioHash: string;
+  duration: number | null;
+  // Uploads served from the cache, and times the audio was sent to the provider
+  hits: number;
+  transcriptions: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+// AES-256-GCM, all base64
+interface EncryptedTranscript {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface TranscriptCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  transcriptions: number;
+  // Share (0-100) of uploads served from the cache; null before any upload
+  hitRate: number | null;
+  // Provider audio minutes the hits didn't pay for, in seconds
+  audioSecondsSaved: number;
+}
+
+const COLLECTION = "transcript-cache";
+
+// Per organization; the least recently used transcripts go first. 0 turns the cache off
+function maxEntries(): number {
+  const value = Number(process.env.TRANSCRIPT_CACHE_SIZE ?? 500);
+  return Number.isInteger(value) && value >= 0 ? value : 500;
+}
+
+export function transcriptCacheEnabled(): boolean {
+  return maxEntries() > 0;
+}
+
+function transcriptPath(key: string): string {
+  return dataPath("transcripts", `${key}.json`);
+}
+
+export function hashAudio(audio: Buffer): string {
+  return createHash("sha256").update(audio).digest("hex");
+}
+
+// Salted so the key can't be worked out from the audio hash kept in the index
+function encryptionKey(audio: Buffer): Buffer {
+  return createHash("sha256").update("transcript-cache-key:").update(audio).digest();
+}
+
+function encrypt(transcript: NormalizedTranscript, audio: Buffer): EncryptedTranscript {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(audio), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(transcript), "utf8"), cipher.final()]);
+  return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+}
+
+// Null when the file is unreadable or doesn't decrypt with this audio's key
+function decrypt(contents: string, audio: Buffer): NormalizedTranscript | null {
+  try {
+    const encrypted = JSON.parse(contents) as EncryptedTranscript;
+    const decipher = createDecipheriv("aes-256-gcm", encryptionKey(audio), Buffer.from(encrypted.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+    const data = Buffer.concat([decipher.update(Buffer.from(encrypted.data, "base64")), decipher.final()]);
+    return JSON.parse(data.toString("utf8")) as NormalizedTranscript;
+  } catch {
+    return null;
+  }
+}
+
+// The organization is part of the key so one tenant's upload never serves another's
+export function transcriptCacheKey(
+  orgId: string,
+  audioHash: string,
+  provider: TranscriptionProvider,
+  request: TranscriptionRequest
+): string {
+  const settings = [orgId, audioHash, provider.name, provider.cacheKey?.(request) ?? "", request.multichannel, request.language ?? ""];
+  return createHash("sha256").update(settings.join("|")).digest("hex");
+}
+
+// The clear transcript, or null on a miss, including an index entry whose file has gone
+// missing or doesn't decrypt
+export async function readCachedTranscript(orgId: string, key: string, audio: Buffer): Promise<NormalizedTranscript | null> {
+  const entries = await readCollection<TranscriptCacheEntry>(COLLECTION);
+  if (!entries.some(e => e.key === key && e.orgId === orgId)) return null;
+  let contents: string;
+  try {
+    contents = await fs.readFile(transcriptPath(key), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  // The upload transcribes again and rewrites the file
+  const cached = decrypt(contents, audio);
+  if (!cached) return null;
+  await updateCollection<TranscriptCacheEntry, void>(COLLECTION, items => ({
+    items: items.map(e => (e.key === key ? { ...e, hits: e.hits + 1, lastUsedAt: new Date().toISOString() } : e)),
+    result: undefined,
+  }));
+  return cached;
+}
+
+export async function writeCachedTranscript(
+  orgId: string,
+  key: string,
+  audio: Buffer,
+  details: { provider: string; duration: number | null },
+  transcript: NormalizedTranscript
+): Promise<void> {
+  const limit = maxEntries();
+  if (!limit) return;
+  await fs.mkdir(dataPath("transcripts"), { recursive: true });
+  // Written aside and renamed in, so a crash or a concurrent upload of the same audio never
+  // leaves a partial file
+  const file = transcriptPath(key);
+  const temp = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(encrypt(transcript, audio)));
+  await fs.rename(temp, file);
+
+  const now = new Date().toISOString();
+  const evicted = await updateCollection<TranscriptCacheEntry, string[]>(COLLECTION, items => {
+    const existing = items.find(e => e.key === key);
+    const entry: TranscriptCacheEntry = existing
+      ? { ...existing, transcriptions: existing.transcriptions + 1, lastUsedAt: now }
+      : { key, orgId, ...details, audioHash: hashAudio(audio), hits: 0, transcriptions: 1, createdAt: now, lastUsedAt: now };
+    const rest = items.filter(e => e.key !== key);
+    const stale = rest
+      .filter(e => e.orgId === orgId)
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .slice(limit - 1)
+      .map(e => e.key);
+    return { items: [...rest.filter(e => !stale.includes(e.key)), entry], result: stale };
+  });
+  await Promise.all(evicted.map(removeTranscript));
+}
+
+async function removeTranscript(key: string): Promise<void> {
+  await fs.rm(transcriptPath(key), { force: true });
+}
+
+export async function transcriptCacheStats(orgId: string): Promise<TranscriptCacheStats> {
+  const entries = (await readCollection<TranscriptCacheEntry>(COLLECTION)).filter(e => e.orgId === orgId);
+  const hits = entries.reduce((sum, e) => sum + e.hits, 0);
+  const transcriptions = entries.reduce((sum, e) => sum + e.transcriptions, 0);
+  return {
+    entries: entries.length,
+    maxEntries: maxEntries(),
+    hits,
+    transcriptions,
+    hitRate: hits + transcriptions ? Math.round((hits / (hits + transcriptions)) * 10000) / 100 : null,
+    audioSecondsSaved: Math.round(entries.reduce((sum, e) => sum + e.hits * (e.duration ?? 0), 0)),
+  };
+}
+
+// Returns how many transcripts were dropped
+export async function clearTranscriptCache(orgId: string): Promise<number> {
+  const removed = await updateCollection<TranscriptCacheEntry, string[]>(COLLECTION, items => ({
+    items: items.filter(e => e.orgId !== orgId),
+    result: items.filter(e => e.orgId === orgId).map(e => e.key),
+  }));
+  await Promise.all(removed.map(removeTranscript));
+  return removed.length;
+}
@@ -0,0 +1,187 @@
+import { createClient, LiveTranscriptionEvents } from "@deepgram/sdk";
+import type { Intent, NormalizedTranscript, Topic, Utterance } from "../types";
+import {
+  TranscriptionHttpError,
+  type LiveTranscription,
+  type LiveTranscriptionHandlers,
+  type LiveTranscriptionOptions,
+  type TranscriptionProvider,
+  type TranscriptionRequest,
+} from "./types";
+
+interface DeepgramSegment<T> {
+  topics?: T[];
+  intents?: T[];
+}
+
+interface DeepgramAlternative {
+  transcript?: string;
+  utterances?: Utterance[];
+  sentiment?: string;
+  sentiment_score?: number;
+  topics?: Topic[];
+  intents?: Intent[];
+}
+
+export interface DeepgramResponse {
+  metadata?: { duration?: number };
+  results?: {
+    channels?: { alternatives: DeepgramAlternative[]; detected_language?: string }[];
+    utterances?: Utterance[];
+    sentiments?: { average?: { sentiment: string; sentiment_score: number } };
+    topics?: { segments?: DeepgramSegment<Topic>[] };
+    intents?: { segments?: DeepgramSegment<{ intent: string; confidence_score: number }>[] };
+  };
+}
+
+// Deepgram reports the audio intelligence features (sentiment, topics, intents) at
+// the top level of results; older responses nested them in the first alternative
+export function normalizeDeepgramResponse(data: DeepgramResponse): NormalizedTranscript {
+  const results = data.results ?? {};
+  const channels = results.channels ?? [];
+  const first = channels[0]?.alternatives[0] ?? {};
+
+  const transcript = channels
+    .map(c => c.alternatives[0]?.transcript || "")
+    .join(" ")
+    .trim();
+  const rawUtterances = results.utterances || first.utterances || [];
+  const utterances = [...rawUtterances]
+    .sort((a, b) => a.start - b.start)
+    .map(u => ({
+      transcript: u.transcript,
+      start: u.start,
+      end: u.end,
+      sentiment: u.sentiment || 'neutral',
+      sentiment_score: u.sentiment_score || 0,
+      speaker: u.speaker,
+      channel: u.channel,
+    }));
+
+  const sentiment = results.sentiments?.average ?? {
+    sentiment: first.sentiment || 'neutral',
+    sentiment_score: first.sentiment_score || 0
+  };
+  const topics = results.topics?.segments?.flatMap(s => s.topics ?? []) ?? first.topics ?? [];
+  const intents = results.intents?.segments
+    ?.flatMap(s => s.intents ?? [])
+    .map(i => ({ intent: i.intent, confidence: i.confidence_score })) ?? first.intents ?? [];
+
+  return {
+    provider: "deepgram",
+    transcript,
+    utterances,
+    sentiment,
+    topics,
+    intents,
+    duration: data.metadata?.duration,
+    language: channels[0]?.detected_language,
+  };
+}
+
+// One message of Deepgram's streaming API
+interface DeepgramLiveResult {
+  start: number;
+  duration: number;
+  is_final?: boolean;
+  channel_index?: number[];
+  channel?: { alternatives?: { transcript?: string; words?: { speaker?: number }[] }[] };
+}
+
+const MODEL = "nova-2";
+
+// How long close() waits for Deepgram to flush its last results
+const LIVE_CLOSE_TIMEOUT_MS = 10_000;
+
+function startLive(apiKey: string, options: LiveTranscriptionOptions, handlers: LiveTranscriptionHandlers): LiveTranscription {
+  const connection = createClient(apiKey).listen.live({
+    model: MODEL,
+    smart_format: true,
+    interim_results: true,
+    diarize: true,
+    multichannel: options.multichannel,
+    // Streaming can't detect the language; Hinglish calls transcribe best as Hindi
+    language: options.language === "en" ? "en-IN" : options.language ?? "hi",
+  });
+  connection.on(LiveTranscriptionEvents.Transcript, (data: DeepgramLiveResult) => {
+    const alternative = data.channel?.alternatives?.[0];
+    if (!alternative?.transcript) return;
+    handlers.onTranscript(
+      {
+        transcript: alternative.transcript,
+        start: data.start,
+        end: data.start + data.duration,
+        // Streaming results carry no sentiment
+        sentiment: "neutral",
+        sentiment_score: 0,
+        speaker: alternative.words?.[0]?.speaker,
+        channel: data.channel_index?.[0],
+      },
+      !!data.is_final
+    );
+  });
+  connection.on(LiveTranscriptionEvents.Error, (error: unknown) => {
+    handlers.onError(new Error(`Deepgram live transcription failed: ${(error as Error)?.message ?? error}`));
+  });
+  const closed = new Promise<void>(resolve => connection.on(LiveTranscriptionEvents.Close, () => resolve()));
+  return {
+    // The client queues chunks sent before the socket opens
+    send: chunk => connection.send(new Uint8Array(chunk).buffer),
+    async close() {
+      connection.requestClose();
+      await Promise.race([closed, new Promise(resolve => setTimeout(resolve, LIVE_CLOSE_TIMEOUT_MS))]);
+    },
+  };
+}
+
+export function createDeepgramProvider(apiKey: string): TranscriptionProvider {
+  return {
+    name: "deepgram",
+    cacheKey: () => MODEL,
+    async transcribe(request: TranscriptionRequest) {
+      const params = new URLSearchParams({
+        smart_format: "true",
+        model: MODEL,
+        utterances: "true",
+        sentiment: "true",
+        topics: "true",
+        summarize: "true",
+        intents: "true",
+        diarize: "true",
+      });
+      if (request.multichannel) params.set("multichannel", "true");
+      // Without an explicit language Deepgram detects it, instead of forcing Hindi on English calls
+      if (request.language) {
+        params.set("language", request.language === "en" ? "en-IN" : request.language);
+      } else {
+        params.set("detect_language", "true");
+      }
+
+      const response = await fetch(`https://api.deepgram.com/v1/listen?${params}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Token ${apiKey}`,
+          'Content-Type': request.mimeType,
+        },
+        body: request.audio,
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new TranscriptionHttpError(`Deepgram API request failed (${response.status}): ${detail.slice(0, 200)}`, response.status);
+      }
+
+      const data = await response.json();
+      // The raw response holds the unredacted transcript, so only its shape is logged
+      console.log('Deepgram API Response:', {
+        requestId: data.metadata?.request_id,
+        duration: data.metadata?.duration,
+        channels: data.results?.channels?.length,
+        utterances: data.results?.utterances?.length,
+      });
+      return normalizeDeepgramResponse(data);
+    },
+    startLive: (options, handlers) => startLive(apiKey, options, handlers),
+  };
+}
@@ -0,0 +1,114 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { wavByteRate } from "../audio";
+import type { NormalizedTranscript, Utterance } from "../types";
+import { normalizeDeepgramResponse, type DeepgramResponse } from "./deepgram";
+import type {
+  LiveTranscription,
+  LiveTranscriptionHandlers,
+  LiveTranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionRequest,
+} from "./types";
+
+export const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), "fixtures", "transcripts");
+
+// Fixtures are either recorded Deepgram responses or already-normalized transcripts
+export function parseFixture(data: DeepgramResponse | NormalizedTranscript): NormalizedTranscript {
+  if ("results" in data) {
+    return { ...normalizeDeepgramResponse(data), provider: "fixture" };
+  }
+  return { ...(data as NormalizedTranscript), provider: "fixture" };
+}
+
+export async function loadFixture(file: string): Promise<NormalizedTranscript> {
+  return parseFixture(JSON.parse(await fs.readFile(file, "utf8")));
+}
+
+// Picks the fixture for a file name: its base name (call-42.wav -> call-42.json), then
+// TRANSCRIPTION_FIXTURE, then default.json
+export async function loadFixtureFor(fileName: string, dir = process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIR): Promise<NormalizedTranscript> {
+  const baseName = path.basename(fileName, path.extname(fileName));
+  const candidates = [`${baseName}.json`, process.env.TRANSCRIPTION_FIXTURE, "default.json"]
+    .filter((name): name is string => Boolean(name))
+    .map(name => path.join(dir, path.basename(name)));
+
+  for (const candidate of candidates) {
+    try {
+      return await loadFixture(candidate);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+  throw new Error(`No transcript fixture found in ${dir} for ${fileName}`);
+}
+
+export interface Replay {
+  // Moves the call clock to this many seconds in
+  advance(seconds: number): void;
+  // Emits everything left as final
+  finish(): void;
+}
+
+// Plays recorded utterances back as a live transcription would deliver them: the words
+// spoken so far as an interim result, then the whole utterance as final once it ends
+export function createReplay(utterances: Utterance[], onTranscript: LiveTranscriptionHandlers["onTranscript"]): Replay {
+  let next = 0;
+  let interim = "";
+  const advance = (seconds: number) => {
+    while (next < utterances.length && utterances[next].end <= seconds) {
+      onTranscript(utterances[next++], true);
+      interim = "";
+    }
+    const current = utterances[next];
+    if (!current || current.start > seconds) return;
+    const words = current.transcript.split(/\s+/);
+    const heard = (seconds - current.start) / Math.max(current.end - current.start, 0.1);
+    const text = words.slice(0, Math.max(1, Math.floor(words.length * heard))).join(" ");
+    if (text !== interim) {
+      interim = text;
+      onTranscript({ ...current, transcript: text, end: seconds }, false);
+    }
+  };
+  return { advance, finish: () => advance(Infinity) };
+}
+
+// Serves recorded responses so the full pipeline runs offline, chosen as in loadFixtureFor.
+// Live, it replays the recording against the audio streamed in: a WAV stream advances the
+// clock by the audio it carries, anything else by the time since the first chunk
+export function createFixtureProvider(dir = process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIR): TranscriptionProvider {
+  return {
+    name: "fixture",
+    // The recording is picked by file name, not audio
+    cacheKey: request => path.basename(request.fileName, path.extname(request.fileName)),
+    async transcribe(request: TranscriptionRequest) {
+      return loadFixtureFor(request.fileName, dir);
+    },
+    startLive(options: LiveTranscriptionOptions, handlers: LiveTranscriptionHandlers): LiveTranscription {
+      let replay: Replay | null = null;
+      const loaded = loadFixtureFor(options.name ?? "live", dir)
+        .then(fixture => {
+          replay = createReplay(fixture.utterances, handlers.onTranscript);
+        })
+        .catch(error => handlers.onError(error));
+      let byteRate: number | null | undefined;
+      let startedAt = 0;
+      let seconds = 0;
+      return {
+        send(chunk: Buffer) {
+          if (byteRate === undefined) {
+            byteRate = wavByteRate(chunk);
+            startedAt = Date.now();
+          }
+          seconds = byteRate ? seconds + chunk.length / byteRate : (Date.now() - startedAt) / 1000;
+          const at = seconds;
+          loaded.then(() => replay?.advance(at));
+        },
+        async close() {
+          await loaded;
+          replay?.finish();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,242 @@
+import { AnalysisError } from "../errors";
+import type { NormalizedTranscript, Utterance } from "../types";
+import { normalizeDeepgramResponse, type DeepgramResponse } from "./deepgram";
+
+// Transcripts made elsewhere (a dialer vendor's ASR, subtitles, a typed-up call) read into
+// the same utterances a provider would return, so they can be scored without audio
+
+export type TranscriptFormat = "json" | "srt" | "vtt" | "text";
+
+export interface ImportedTranscript {
+  format: TranscriptFormat;
+  transcript: NormalizedTranscript;
+  // The speaker index labelled as the agent ("Agent:", <v Agent>), when one was
+  agentSpeaker?: number;
+}
+
+// Labels that name a party rather than a person, in the languages the packs cover
+const AGENT_LABELS = new Set(["agent", "executive", "rep", "representative", "officer", "caller", "एजेंट"]);
+const CUSTOMER_LABELS = new Set(["customer", "client", "borrower", "debtor", "ग्राहक"]);
+
+// Untimed text is given the time it would take to say, so time-bound rules still apply
+const WORDS_PER_SECOND = 2.5;
+// Subtitle cues split sentences; a speaker's cues closer than this are one utterance,
+// as Deepgram's utterances split at 0.8s pauses
+const CUE_JOIN_SECONDS = 0.8;
+
+// "Agent: ...", "Speaker 1: ...", "ग्राहक: ..." at the start of a line
+const SPEAKER_PREFIX = /^([\p{L}\p{M}][\p{L}\p{M}\p{N} ._-]{0,29}?)\s*[:：]\s*(.*)$/u;
+// [00:01:23], 00:01:23.5, (1:23) at the start of a plain text line
+const TEXT_TIMESTAMP = /^[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d+)?)[\])]?\s*[-–]?\s*/;
+// 00:00:01,000 --> 00:00:04,000 in SRT; VTT may leave out the hours and add cue settings
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const VOICE_TAG = /^<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const speakingTime = (text: string) => Math.max(1, wordCount(text) / WORDS_PER_SECOND);
+
+function parseTime(value: string): number {
+  return value
+    .replace(",", ".")
+    .split(":")
+    .reduce((seconds, part) => seconds * 60 + Number(part), 0);
+}
+
+// Recognised by content rather than extension, as audio is
+export function detectTranscriptFormat(content: string): TranscriptFormat {
+  const head = content.trimStart();
+  if (head.startsWith("{")) return "json";
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (head.split(/\r?\n/, 5).some(line => CUE_TIMING.test(line.trim()))) return "srt";
+  return "text";
+}
+
+interface Line {
+  label?: string;
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+// Splits a "Label: text" prefix off when it looks like a speaker name rather than a sentence
+function splitSpeaker(text: string): { label?: string; text: string } {
+  const match = SPEAKER_PREFIX.exec(text);
+  if (!match || wordCount(match[1]) > 3) return { text };
+  return { label: match[1].trim(), text: match[2].trim() };
+}
+
+// Speaker indices in order of appearance, and which one is the agent by its label. When
+// only the customer is labelled, the other of two speakers is the agent
+function speakerIndices(lines: Line[]): { indexOf: Map<string, number>; agentSpeaker?: number } {
+  const indexOf = new Map<string, number>();
+  for (const { label } of lines) {
+    if (label && !indexOf.has(label.toLowerCase())) indexOf.set(label.toLowerCase(), indexOf.size);
+  }
+  const labels = [...indexOf.keys()];
+  const agent = labels.find(label => AGENT_LABELS.has(label.split(/\s+/)[0]));
+  if (agent) return { indexOf, agentSpeaker: indexOf.get(agent) };
+  const customer = labels.find(label => CUSTOMER_LABELS.has(label.split(/\s+/)[0]));
+  if (customer && labels.length === 2) return { indexOf, agentSpeaker: indexOf.get(labels.find(l => l !== customer)!) };
+  return { indexOf };
+}
+
+function toTranscript(format: TranscriptFormat, lines: Line[]): ImportedTranscript {
+  const { indexOf, agentSpeaker } = speakerIndices(lines);
+  const utterances: Utterance[] = [];
+  let clock = 0;
+  lines.forEach((line, i) => {
+    if (!line.text) return;
+    const start = line.start ?? clock;
+    const nextStart = lines.slice(i + 1).find(l => l.start !== undefined)?.start;
+    const end = line.end ?? Math.min(start + speakingTime(line.text), nextStart !== undefined && nextStart > start ? nextStart : Infinity);
+    const speaker = line.label ? indexOf.get(line.label.toLowerCase()) : undefined;
+    clock = Math.max(clock, end);
+
+    const last = utterances[utterances.length - 1];
+    if (last && speaker !== undefined && last.speaker === speaker && start - last.end < CUE_JOIN_SECONDS) {
+      last.transcript = `${last.transcript} ${line.text}`;
+      last.end = round2(Math.max(last.end, end));
+      return;
+    }
+    utterances.push({ transcript: line.text, start: round2(start), end: round2(end), sentiment: "neutral", sentiment_score: 0, speaker });
+  });
+  if (!utterances.length) throw new AnalysisError("EMPTY_TRANSCRIPT", "The transcript has no text");
+  return {
+    format,
+    transcript: {
+      provider: "imported",
+      transcript: utterances.map(u => u.transcript).join(" "),
+      utterances,
+      sentiment: { sentiment: "neutral", sentiment_score: 0 },
+      topics: [],
+      intents: [],
+      duration: utterances.reduce((max, u) => Math.max(max, u.end), 0),
+    },
+    agentSpeaker,
+  };
+}
+
+// SRT and WebVTT: blocks of an optional cue id, a timing line and the text. VTT voice tags
+// and "Name:" prefixes name the speaker; other markup is dropped
+function parseCues(format: "srt" | "vtt", content: string): ImportedTranscript {
+  const lines: Line[] = [];
+  for (const block of content.replace(/\r/g, "").split(/\n\s*\n/)) {
+    const rows = block.split("\n").map(row => row.trim()).filter(Boolean);
+    const timing = rows.findIndex(row => CUE_TIMING.test(row));
+    if (timing === -1) continue;
+    const [, from, to] = CUE_TIMING.exec(rows[timing])!;
+    let text = rows.slice(timing + 1).join(" ");
+    const voice = VOICE_TAG.exec(text)?.[1]?.trim();
+    text = text.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+    const named = voice ? { label: voice, text } : splitSpeaker(text);
+    lines.push({ ...named, start: parseTime(from), end: parseTime(to) });
+  }
+  if (!lines.length) throw new AnalysisError("INVALID_TRANSCRIPT", `No timed cues found in the ${format.toUpperCase()} file`);
+  return toTranscript(format, lines);
+}
+
+// One utterance per "Speaker: text" line, optionally timestamped. Lines without a label
+// continue the previous speaker's utterance, as wrapped text does
+function parseText(content: string): ImportedTranscript {
+  const lines: Line[] = [];
+  for (const raw of content.replace(/\r/g, "").split("\n")) {
+    let row = raw.trim();
+    if (!row) continue;
+    let start: number | undefined;
+    const stamp = TEXT_TIMESTAMP.exec(row);
+    if (stamp) {
+      start = parseTime(stamp[1]);
+      row = row.slice(stamp[0].length);
+    }
+    const named = splitSpeaker(row);
+    const last = lines[lines.length - 1];
+    if (!named.label && start === undefined && last?.label) {
+      last.text = `${last.text} ${named.text}`;
+    } else {
+      lines.push({ ...named, start });
+    }
+  }
+  return toTranscript("text", lines);
+}
+
+// Index of the first utterance without a transcript and numeric times, or -1
+function invalidUtterance(utterances: Partial<Utterance>[]): number {
+  return utterances.findIndex(u => !u || typeof u.transcript !== "string" || typeof u.start !== "number" || typeof u.end !== "number");
+}
+
+// Returns an error message, or null when normalizeDeepgramResponse can read the response
+function validateDeepgramResponse(data: DeepgramResponse): string | null {
+  const { results } = data;
+  if (!results || typeof results !== "object") return "Deepgram results must be an object";
+  if (results.channels !== undefined && !Array.isArray(results.channels)) return "Deepgram channels must be an array";
+  for (const channel of results.channels ?? []) {
+    if (!channel || !Array.isArray(channel.alternatives)) return "Every Deepgram channel needs an alternatives array";
+    if (channel.alternatives.some(a => !a || (a.transcript !== undefined && typeof a.transcript !== "string"))) {
+      return "Deepgram alternatives need a text transcript";
+    }
+  }
+  const utterances = results.utterances ?? results.channels?.[0]?.alternatives[0]?.utterances ?? [];
+  if (!Array.isArray(utterances)) return "Deepgram utterances must be an array";
+  const invalid = invalidUtterance(utterances);
+  return invalid === -1 ? null : `Utterance ${invalid + 1} needs a transcript and numeric start and end times`;
+}
+
+// A saved Deepgram response, a normalized transcript as the API returns it, or a dialer's
+// { utterances: [{ transcript, start, end, speaker?, channel? }] }
+function parseJson(content: string): ImportedTranscript {
+  let data: DeepgramResponse | Partial<NormalizedTranscript> | null;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    data = null;
+  }
+  if (!data || typeof data !== "object") {
+    throw new AnalysisError("INVALID_TRANSCRIPT", "The JSON transcript could not be parsed");
+  }
+  if ("results" in data) {
+    const invalid = validateDeepgramResponse(data);
+    if (invalid) throw new AnalysisError("INVALID_TRANSCRIPT", invalid);
+    return { format: "json", transcript: normalizeDeepgramResponse(data) };
+  }
+  const raw = (data as Partial<NormalizedTranscript>).utterances;
+  if (!Array.isArray(raw) || !raw.length) {
+    throw new AnalysisError("INVALID_TRANSCRIPT", "JSON transcripts need Deepgram results or an utterances array");
+  }
+  const invalid = invalidUtterance(raw);
+  if (invalid !== -1) {
+    throw new AnalysisError("INVALID_TRANSCRIPT", `Utterance ${invalid + 1} needs a transcript and numeric start and end times`);
+  }
+  const utterances = [...raw]
+    .sort((a, b) => a.start - b.start)
+    .map(u => ({ ...u, sentiment: u.sentiment || "neutral", sentiment_score: u.sentiment_score || 0 }));
+  const normalized = data as Partial<NormalizedTranscript>;
+  return {
+    format: "json",
+    transcript: {
+      provider: normalized.provider || "imported",
+      transcript: normalized.transcript || utterances.map(u => u.transcript).join(" "),
+      utterances,
+      sentiment: normalized.sentiment ?? { sentiment: "neutral", sentiment_score: 0 },
+      topics: normalized.topics ?? [],
+      intents: normalized.intents ?? [],
+      duration: normalized.duration ?? utterances.reduce((max, u) => Math.max(max, u.end), 0),
+      language: normalized.language,
+    },
+  };
+}
+
+export function parseTranscriptFile(content: string): ImportedTranscript {
+  // Editors on Windows save UTF-8 with a byte order mark
+  const text = content.replace(/^\uFEFF/, "");
+  const format = detectTranscriptFormat(text);
+  switch (format) {
+    case "json":
+      return parseJson(text);
+    case "srt":
+    case "vtt":
+      return parseCues(format, text);
+    case "text":
+      return parseText(text);
+  }
+}
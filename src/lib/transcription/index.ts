@@ -0,0 +1,110 @@
+import { AnalysisError } from "../errors";
+import type { NormalizedTranscript } from "../types";
+import { createDeepgramProvider } from "./deepgram";
+import { createFixtureProvider } from "./fixture";
+import type { TranscriptionProvider, TranscriptionRequest } from "./types";
+import { createWhisperProvider } from "./whisper";
+
+export type {
+  LiveTranscription,
+  LiveTranscriptionHandlers,
+  LiveTranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionRequest,
+} from "./types";
+export {
+  clearTranscriptCache,
+  hashAudio,
+  readCachedTranscript,
+  transcriptCacheKey,
+  transcriptCacheStats,
+  writeCachedTranscript,
+  type TranscriptCacheStats,
+} from "./cache";
+export { createReplay, loadFixtureFor, type Replay } from "./fixture";
+export { detectTranscriptFormat, parseTranscriptFile, type ImportedTranscript, type TranscriptFormat } from "./imported";
+export { TranscriptionHttpError } from "./types";
+
+export const PROVIDER_NAMES = ["deepgram", "whisper", "fixture"] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+// Resolution order: explicit name, TRANSCRIPTION_PROVIDER, then Deepgram when a key
+// is configured, falling back to recorded fixtures so development works offline
+export function getTranscriptionProvider(name?: string): TranscriptionProvider {
+  const selected = name || process.env.TRANSCRIPTION_PROVIDER || (process.env.DEEPGRAM_API_KEY ? "deepgram" : "fixture");
+
+  switch (selected) {
+    case "deepgram": {
+      const apiKey = process.env.DEEPGRAM_API_KEY;
+      if (!apiKey) throw new AnalysisError("PROVIDER_NOT_CONFIGURED", "DEEPGRAM_API_KEY is not configured");
+      return createDeepgramProvider(apiKey);
+    }
+    case "whisper": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new AnalysisError("PROVIDER_NOT_CONFIGURED", "OPENAI_API_KEY is not configured");
+      return createWhisperProvider(apiKey);
+    }
+    case "fixture":
+      return createFixtureProvider();
+    default:
+      throw new AnalysisError("PROVIDER_NOT_CONFIGURED", `Unknown transcription provider: ${selected}`);
+  }
+}
+
+// Per attempt: long calls can take a few minutes to transcribe
+const timeoutMs = () => Number(process.env.TRANSCRIPTION_TIMEOUT_MS || 180_000);
+const maxRetries = () => Number(process.env.TRANSCRIPTION_RETRIES ?? 2);
+const BACKOFF_MS = 1000;
+
+// Maps a provider failure to an error code. HTTP statuses come from Deepgram's
+// TranscriptionHttpError and the OpenAI SDK's APIError alike; no status means the
+// request never got an answer
+function classify(error: unknown, provider: string): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+  const status = (error as { status?: unknown }).status;
+  if (typeof status !== "number") {
+    return new AnalysisError("TRANSCRIPTION_FAILED", `Could not reach ${provider}: ${(error as Error).message}`);
+  }
+  if (status === 413) {
+    return new AnalysisError("FILE_TOO_LARGE", `${provider} rejected the file as too large`);
+  }
+  if (status === 400 || status === 415 || status === 422) {
+    return new AnalysisError("UNSUPPORTED_FORMAT", `${provider} could not decode the audio`);
+  }
+  if (status === 401 || status === 403) {
+    return new AnalysisError("PROVIDER_NOT_CONFIGURED", `${provider} rejected the API key`);
+  }
+  return new AnalysisError("TRANSCRIPTION_FAILED", `${provider} transcription failed (HTTP ${status})`);
+}
+
+function attempt(provider: TranscriptionProvider, request: TranscriptionRequest, ms: number): Promise<NormalizedTranscript> {
+  const signal = AbortSignal.timeout(ms);
+  // Racing the signal also bounds providers that ignore it
+  return new Promise((resolve, reject) => {
+    signal.addEventListener("abort", () =>
+      reject(new AnalysisError("TRANSCRIPTION_TIMEOUT", `${provider.name} did not respond within ${ms / 1000}s`))
+    );
+    provider.transcribe({ ...request, signal }).then(resolve, reject);
+  });
+}
+
+// Transcribes with a timeout per attempt, retrying timeouts, network errors, rate limits
+// and server errors with exponential backoff. Errors are AnalysisErrors with a code
+export async function transcribeWithRetry(provider: TranscriptionProvider, request: TranscriptionRequest): Promise<NormalizedTranscript> {
+  const retries = maxRetries();
+  for (let n = 0; ; n++) {
+    try {
+      return await attempt(provider, request, timeoutMs());
+    } catch (cause) {
+      const error = classify(cause, provider.name);
+      if (!error.retryable || n >= retries) throw error;
+      const delay = BACKOFF_MS * 2 ** n + Math.random() * 250;
+      console.warn(`${provider.name} attempt ${n + 1} failed (${error.code}: ${(cause as Error).message}), retrying in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { NormalizedTranscript, Utterance } from "../types";
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string;
+  fileName: string;
+  // Stereo recording with agent and customer on separate channels
+  multichannel: boolean;
+  language?: string;
+  // Aborted when the attempt times out
+  signal?: AbortSignal;
+}
+
+// A provider API answered with an error status; the status decides whether to retry
+export class TranscriptionHttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "TranscriptionHttpError";
+  }
+}
+
+export interface LiveTranscriptionOptions {
+  multichannel: boolean;
+  language?: string;
+  // Names the recording to replay, for the fixture provider
+  name?: string;
+}
+
+// Interim results for an utterance arrive as it is spoken and are replaced by a final one
+export interface LiveTranscriptionHandlers {
+  onTranscript(utterance: Utterance, final: boolean): void;
+  onError(error: Error): void;
+}
+
+export interface LiveTranscription {
+  send(chunk: Buffer): void;
+  // Resolves once the provider has returned its last final result
+  close(): Promise<void>;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(request: TranscriptionRequest): Promise<NormalizedTranscript>;
+  // Whatever besides the audio, channels and language decides the transcript (the model,
+  // the fixture), so cached transcripts are only reused for the same settings
+  cacheKey?(request: TranscriptionRequest): string;
+  // Streaming transcription of audio sent in chunks, where the provider supports it
+  startLive?(options: LiveTranscriptionOptions, handlers: LiveTranscriptionHandlers): LiveTranscription;
+}
@@ -0,0 +1,41 @@
+import OpenAI, { toFile } from "openai";
+import type { NormalizedTranscript } from "../types";
+import type { TranscriptionProvider, TranscriptionRequest } from "./types";
+
+// Whisper returns timed segments but no sentiment, topics, intents or speakers, so
+// those fields come back neutral/empty and speaker attribution falls back to "unknown"
+export function createWhisperProvider(apiKey: string, model = process.env.WHISPER_MODEL || "whisper-1"): TranscriptionProvider {
+  const client = new OpenAI({ apiKey });
+  return {
+    name: "whisper",
+    cacheKey: () => model,
+    async transcribe(request: TranscriptionRequest): Promise<NormalizedTranscript> {
+      const result = await client.audio.transcriptions.create({
+        file: await toFile(request.audio, request.fileName, { type: request.mimeType }),
+        model,
+        language: request.language,
+        response_format: "verbose_json",
+        timestamp_granularities: ["segment"],
+      }, { signal: request.signal, maxRetries: 0 }); // transcribeWithRetry does the retrying
+
+      const utterances = (result.segments ?? []).map(segment => ({
+        transcript: segment.text.trim(),
+        start: segment.start,
+        end: segment.end,
+        sentiment: "neutral",
+        sentiment_score: 0,
+      }));
+
+      return {
+        provider: "whisper",
+        transcript: result.text,
+        utterances,
+        sentiment: { sentiment: "neutral", sentiment_score: 0 },
+        topics: [],
+        intents: [],
+        duration: result.duration,
+        language: result.language,
+      };
+    },
+  };
+}
@@ -0,0 +1,40 @@
+export type SpeakerRole = "agent" | "customer" | "unknown";
+
+export interface Utterance {
+  transcript: string;
+  start: number;
+  end: number;
+  sentiment: string;
+  sentiment_score: number;
+  // Diarized speaker index and audio channel, when the provider reports them
+  speaker?: number;
+  channel?: number;
+  role?: SpeakerRole;
+}
+
+export interface Sentiment {
+  sentiment: string;
+  sentiment_score: number;
+}
+
+export interface Topic {
+  topic: string;
+  confidence_score: number;
+}
+
+export interface Intent {
+  intent: string;
+  confidence: number;
+}
+
+// Provider-independent transcript that every analyzer works from
+export interface NormalizedTranscript {
+  provider: string;
+  transcript: string;
+  utterances: Utterance[];
+  sentiment: Sentiment;
+  topics: Topic[];
+  intents: Intent[];
+  duration?: number;
+  language?: string;
+}
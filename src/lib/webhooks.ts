@@ -0,0 +1,337 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import type { CallRecord } from "./calls";
+import { readCollection, updateCollection } from "./store";
+
+export const WEBHOOK_EVENTS = ["analysis.completed", "analysis.fatal"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface Webhook {
+  id: string;
+  // Only this organization's calls are sent to it
+  orgId: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  active: boolean;
+  // Signs every payload; only shown in full when the webhook is created
+  secret: string;
+  createdAt: string;
+}
+
+export interface WebhookInput {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string;
+  active?: boolean;
+}
+
+export interface DeliveryAttempt {
+  at: string;
+  // HTTP status from the receiver; absent when it couldn't be reached
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface Delivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent | "webhook.test";
+  status: DeliveryStatus;
+  payload: WebhookPayload;
+  attempts: DeliveryAttempt[];
+  nextAttemptAt?: string;
+  createdAt: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: Delivery["event"];
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+const WEBHOOKS = "webhooks";
+const DELIVERIES = "webhook-deliveries";
+
+// The log keeps the most recent deliveries across all webhooks
+const MAX_DELIVERIES = 1000;
+const ATTEMPT_TIMEOUT_MS = 10_000;
+
+const maxAttempts = () => Number(process.env.WEBHOOK_MAX_ATTEMPTS || 5);
+// 5s, 20s, 80s, 320s ... between attempts
+const retryDelay = (attempt: number) => Number(process.env.WEBHOOK_RETRY_BASE_MS || 5000) * 4 ** (attempt - 1);
+
+// Retry timers have to survive hot reloads like the batch queue does, and pending
+// deliveries are rescheduled after a restart
+interface RetryState {
+  timers: Map<string, NodeJS.Timeout>;
+  recovered: Promise<void> | null;
+}
+const state: RetryState = ((globalThis as { __webhookRetries?: RetryState }).__webhookRetries ??= {
+  timers: new Map(),
+  recovered: null,
+});
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly unknown[]).includes(value);
+}
+
+// Returns an error message, or null when the input is usable
+export function validateWebhookInput(input: WebhookInput, requireUrl: boolean): string | null {
+  if (requireUrl || input.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(String(input.url));
+    } catch {
+      return "A valid webhook url is required";
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return "Webhook url must use http or https";
+    }
+  }
+  if (requireUrl || input.events !== undefined) {
+    if (!Array.isArray(input.events) || !input.events.length || !input.events.every(isWebhookEvent)) {
+      return `events must list one or more of: ${WEBHOOK_EVENTS.join(", ")}`;
+    }
+  }
+  if (input.active !== undefined && typeof input.active !== "boolean") {
+    return "active must be a boolean";
+  }
+  return null;
+}
+
+// Secrets stay out of list and detail responses after creation
+export function redactSecret(webhook: Webhook): Webhook {
+  return { ...webhook, secret: `${webhook.secret.slice(0, 10)}…` };
+}
+
+export async function listWebhooks(orgId: string): Promise<Webhook[]> {
+  return (await readCollection<Webhook>(WEBHOOKS)).filter(w => w.orgId === orgId);
+}
+
+export async function getWebhook(orgId: string, id: string): Promise<Webhook | null> {
+  return (await listWebhooks(orgId)).find(w => w.id === id) ?? null;
+}
+
+export async function createWebhook(orgId: string, input: WebhookInput): Promise<Webhook> {
+  const webhook: Webhook = {
+    id: randomUUID(),
+    orgId,
+    url: input.url!,
+    events: [...new Set(input.events!)],
+    description: input.description?.trim() || undefined,
+    active: input.active ?? true,
+    secret: `whsec_${randomBytes(24).toString("hex")}`,
+    createdAt: new Date().toISOString(),
+  };
+  return updateCollection<Webhook, Webhook>(WEBHOOKS, items => ({ items: [...items, webhook], result: webhook }));
+}
+
+export async function updateWebhook(orgId: string, id: string, input: WebhookInput): Promise<Webhook | null> {
+  return updateCollection<Webhook, Webhook | null>(WEBHOOKS, items => {
+    const current = items.find(w => w.id === id && w.orgId === orgId);
+    if (!current) return { items, result: null };
+    const updated: Webhook = {
+      ...current,
+      url: input.url ?? current.url,
+      events: input.events ? [...new Set(input.events)] : current.events,
+      description: input.description !== undefined ? input.description.trim() || undefined : current.description,
+      active: input.active ?? current.active,
+    };
+    return { items: items.map(w => (w.id === id ? updated : w)), result: updated };
+  });
+}
+
+export async function deleteWebhook(orgId: string, id: string): Promise<boolean> {
+  return updateCollection<Webhook, boolean>(WEBHOOKS, items => ({
+    items: items.filter(w => !(w.id === id && w.orgId === orgId)),
+    result: items.some(w => w.id === id && w.orgId === orgId),
+  }));
+}
+
+// Newest first
+export async function listDeliveries(webhookId: string): Promise<Delivery[]> {
+  return (await readCollection<Delivery>(DELIVERIES)).filter(d => d.webhookId === webhookId).reverse();
+}
+
+// Stripe-style signature over "<timestamp>.<body>", so receivers can reject replays
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function saveDelivery(delivery: Delivery): Promise<void> {
+  await updateCollection<Delivery, void>(DELIVERIES, items => {
+    const others = items.filter(d => d.id !== delivery.id);
+    return { items: [...others, delivery].slice(-MAX_DELIVERIES), result: undefined };
+  });
+}
+
+async function send(webhook: Webhook, delivery: Delivery): Promise<DeliveryAttempt> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  const at = new Date(started).toISOString();
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "call-analyzer-webhooks",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Signature": `t=${timestamp},v1=${signPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+      redirect: "manual",
+    });
+    return {
+      at,
+      status: response.status,
+      error: response.ok ? undefined : `Receiver answered ${response.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    return { at, error: (error as Error).message, durationMs: Date.now() - started };
+  }
+}
+
+// Makes one attempt and records it; failures are retried on a timer until the attempts
+// run out. Returns the delivery as it stands after this attempt
+async function attemptDelivery(webhook: Webhook, delivery: Delivery): Promise<Delivery> {
+  state.timers.delete(delivery.id);
+  const attempt = await send(webhook, delivery);
+  const attempts = [...delivery.attempts, attempt];
+  const delivered = attempt.status !== undefined && attempt.status >= 200 && attempt.status < 300;
+  const retry = !delivered && attempts.length < maxAttempts();
+  const next: Delivery = {
+    ...delivery,
+    attempts,
+    status: delivered ? "delivered" : retry ? "pending" : "failed",
+    nextAttemptAt: retry ? new Date(Date.now() + retryDelay(attempts.length)).toISOString() : undefined,
+  };
+  await saveDelivery(next);
+  if (retry) schedule(next);
+  else if (!delivered) console.error(`Webhook ${webhook.id} gave up on ${delivery.event} delivery ${delivery.id}: ${attempt.error}`);
+  return next;
+}
+
+async function retryDelivery(delivery: Delivery): Promise<void> {
+  state.timers.delete(delivery.id);
+  // The webhook may have been removed or paused while the retry waited. A test event was
+  // asked for explicitly, so it keeps retrying to a paused webhook as its first send did
+  const webhook = (await readCollection<Webhook>(WEBHOOKS)).find(w => w.id === delivery.webhookId);
+  if (!webhook || (!webhook.active && delivery.event !== "webhook.test")) {
+    await saveDelivery({ ...delivery, status: "failed", nextAttemptAt: undefined });
+    return;
+  }
+  await attemptDelivery(webhook, delivery);
+}
+
+function schedule(delivery: Delivery): void {
+  const delay = Math.max(0, Date.parse(delivery.nextAttemptAt!) - Date.now());
+  const timer = setTimeout(() => {
+    retryDelivery(delivery).catch(error => console.error("Webhook retry error:", error));
+  }, delay);
+  timer.unref?.();
+  state.timers.set(delivery.id, timer);
+}
+
+function recover(): Promise<void> {
+  state.recovered ??= readCollection<Delivery>(DELIVERIES).then(deliveries => {
+    for (const delivery of deliveries) {
+      if (delivery.status === "pending" && delivery.nextAttemptAt && !state.timers.has(delivery.id)) schedule(delivery);
+    }
+  });
+  return state.recovered;
+}
+
+async function deliver(webhook: Webhook, event: Delivery["event"], data: Record<string, unknown>): Promise<Delivery> {
+  await recover();
+  const createdAt = new Date().toISOString();
+  const id = randomUUID();
+  const delivery: Delivery = {
+    id,
+    webhookId: webhook.id,
+    event,
+    status: "pending",
+    payload: { id, event, createdAt, data },
+    attempts: [],
+    createdAt,
+  };
+  return attemptDelivery(webhook, delivery);
+}
+
+// What a receiver gets about a call. Built from the saved record, so transcripts
+// and names are already PII-masked
+export function analysisPayload(call: CallRecord): Record<string, unknown> {
+  const { result } = call;
+  return {
+    callId: call.id,
+    fileName: call.fileName,
+    agent: call.agent,
+    team: call.team,
+    campaign: call.campaign,
+    analyzedAt: call.createdAt,
+    scorecard: result.scorecard,
+    total: {
+      score: result.summary.score,
+      maxScore: result.summary.maxScore,
+      percentage: result.summary.percentage,
+      grade: result.summary.grade,
+    },
+    fatalErrors: result.summary.fatalErrors,
+    scores: result.parameters.map(p => ({
+      key: p.key,
+      name: p.name,
+      score: result.scores[p.key] ?? 0,
+      weight: p.weight,
+      fatal: p.fatal,
+    })),
+    overallFeedback: result.overallFeedback,
+    observation: result.observation,
+  };
+}
+
+// Fans a saved call out to every active subscription in its organization: analysis.completed
+// always, and analysis.fatal when a fatal parameter failed. Receivers being down never fails
+// the analysis
+export async function notifyAnalysis(call: CallRecord): Promise<void> {
+  const events: WebhookEvent[] = ["analysis.completed"];
+  if (call.result.summary.fatalErrors.length) events.push("analysis.fatal");
+  const data = analysisPayload(call);
+  const webhooks = (await listWebhooks(call.orgId)).filter(w => w.active);
+  await Promise.all(
+    webhooks.flatMap(webhook =>
+      events.filter(event => webhook.events.includes(event)).map(event => deliver(webhook, event, data))
+    )
+  );
+}
+
+// Same shape as a real analysis payload, so receivers can be built against it
+const SAMPLE_ANALYSIS = {
+  callId: "00000000-0000-0000-0000-000000000000",
+  fileName: "test-call.wav",
+  agent: "Test Agent",
+  team: null,
+  campaign: null,
+  analyzedAt: "2025-01-01T10:00:00.000Z",
+  scorecard: { id: "default", version: 1, name: "Test Scorecard" },
+  total: { score: 5, maxScore: 10, percentage: 50, grade: "Needs Improvement" },
+  fatalErrors: [{ key: "compliance", name: "Compliance" }],
+  scores: [
+    { key: "greeting", name: "Greeting", score: 5, weight: 5, fatal: false },
+    { key: "compliance", name: "Compliance", score: 0, weight: 5, fatal: true },
+  ],
+  overallFeedback: "This is a test event.",
+  observation: "This is a test event.",
+};
+
+// Sends a sample payload straight away, whether or not the webhook is active, and
+// reports how that first attempt went. Failures are retried like any other delivery
+export async function sendTestEvent(webhook: Webhook): Promise<Delivery> {
+  return deliver(webhook, "webhook.test", { ...SAMPLE_ANALYSIS, test: true });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/cookies";
+
+// Pages need a signed-in user. API routes check credentials themselves, since they also
+// take API keys; an expired cookie gets past here and is caught by the first API call
+export function middleware(req: NextRequest) {
+  if (req.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+  const url = req.nextUrl.clone();
+  url.pathname = "/login";
+  url.search = `?next=${encodeURIComponent(req.nextUrl.pathname + req.nextUrl.search)}`;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  matcher: ["/((?!api|login|_next|favicon.ico).*)"],
+};